@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Analysis" ADD COLUMN     "monitorId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Monitor" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "brandName" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Monitor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Monitor_userId_idx" ON "Monitor"("userId");
+
+-- CreateIndex
+CREATE INDEX "Analysis_monitorId_createdAt_idx" ON "Analysis"("monitorId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Analysis" ADD CONSTRAINT "Analysis_monitorId_fkey" FOREIGN KEY ("monitorId") REFERENCES "Monitor"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Monitor" ADD CONSTRAINT "Monitor_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
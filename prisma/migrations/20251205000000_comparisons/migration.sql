@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Analysis" ADD COLUMN     "comparisonId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Comparison" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "primaryBrand" TEXT NOT NULL,
+    "competitors" TEXT[],
+    "status" TEXT NOT NULL DEFAULT 'processing',
+    "result" JSONB,
+    "runs" INTEGER NOT NULL DEFAULT 0,
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Comparison_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Comparison_userId_createdAt_idx" ON "Comparison"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Analysis_comparisonId_idx" ON "Analysis"("comparisonId");
+
+-- AddForeignKey
+ALTER TABLE "Analysis" ADD CONSTRAINT "Analysis_comparisonId_fkey" FOREIGN KEY ("comparisonId") REFERENCES "Comparison"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Comparison" ADD CONSTRAINT "Comparison_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "BrandDocument" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "brandName" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "chunks" INTEGER NOT NULL,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BrandDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BrandDocument_userId_brandName_contentHash_key" ON "BrandDocument"("userId", "brandName", "contentHash");
+
+-- AddForeignKey
+ALTER TABLE "BrandDocument" ADD CONSTRAINT "BrandDocument_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
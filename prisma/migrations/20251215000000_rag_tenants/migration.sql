@@ -0,0 +1,14 @@
+-- DropIndex
+DROP INDEX "BrandDocument_userId_brandName_contentHash_key";
+
+-- AlterTable
+ALTER TABLE "BrandDocument" ADD COLUMN     "tenantId" TEXT NOT NULL DEFAULT 'public';
+
+-- AlterTable
+ALTER TABLE "Comparison" ADD COLUMN     "tenantId" TEXT NOT NULL DEFAULT 'public';
+
+-- AlterTable
+ALTER TABLE "Monitor" ADD COLUMN     "tenantId" TEXT NOT NULL DEFAULT 'public';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BrandDocument_tenantId_userId_brandName_contentHash_key" ON "BrandDocument"("tenantId", "userId", "brandName", "contentHash");
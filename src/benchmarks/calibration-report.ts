@@ -0,0 +1,148 @@
+export type GoldenBrand = {
+  brand: string;
+  band: [number, number];   // expected score range, inclusive
+  segment: string;          // which rung of the prompt's scoring scale this brand represents
+};
+
+export type CalibrationThresholds = {
+  minHitRate: number;       // 0..1
+  maxAbsBias: number;       // points
+  maxVariance: number;      // points²
+};
+
+export type GoldenSet = {
+  thresholds: CalibrationThresholds;
+  brands: GoldenBrand[];
+};
+
+// One replayed provider answer: its score, or why there is none
+export type CalibrationSample = {
+  brand: string;
+  provider: string;
+  prompt: string;           // promptId@version, as the provider rendered it
+  run: number;              // recording sample index
+  outcome: number | 'parse-failure' | 'missing';
+};
+
+export type CalibrationRow = {
+  provider: string;         // provider name, or 'pipeline' for the averaged score
+  prompt: string;           // promptId@version
+  brands: number;
+  samples: number;
+  parseFailures: number;
+  missing: number;          // samples with no recorded response for this prompt
+  hitRate: number | null;   // share of scored samples inside the expected band
+  meanBias: number | null;  // mean of (score - band midpoint)
+  variance: number | null;  // mean run-to-run variance per brand (needs 2+ samples)
+  failures: string[];       // thresholds this row misses
+};
+
+type Scored = { brand: string; score: number };
+
+function round2(n: number) { return Math.round(n * 100) / 100; }
+
+function sampleVariance(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+}
+
+function summarize(
+  provider: string,
+  prompt: string,
+  scored: Scored[],
+  parseFailures: number,
+  missing: number,
+  golden: Map<string, GoldenBrand>,
+  thresholds: CalibrationThresholds
+): CalibrationRow {
+  const byBrand = new Map<string, number[]>();
+  for (const s of scored) {
+    byBrand.set(s.brand, [...(byBrand.get(s.brand) || []), s.score]);
+  }
+
+  let hits = 0;
+  let biasSum = 0;
+  for (const s of scored) {
+    const [min, max] = golden.get(s.brand).band;
+    if (s.score >= min && s.score <= max) hits++;
+    biasSum += s.score - (min + max) / 2;
+  }
+
+  const variances = [...byBrand.values()].filter(v => v.length > 1).map(sampleVariance);
+
+  const row: CalibrationRow = {
+    provider,
+    prompt,
+    brands: byBrand.size,
+    samples: scored.length + parseFailures + missing,
+    parseFailures,
+    missing,
+    hitRate: scored.length > 0 ? round2(hits / scored.length) : null,
+    meanBias: scored.length > 0 ? round2(biasSum / scored.length) : null,
+    variance: variances.length > 0 ? round2(variances.reduce((sum, v) => sum + v, 0) / variances.length) : null,
+    failures: []
+  };
+
+  // A changed prompt hashes to new fixtures: it has to be recorded before it can pass
+  if (missing > 0) {
+    row.failures.push(`${missing} sample(s) not recorded`);
+  }
+  if (row.hitRate !== null && row.hitRate < thresholds.minHitRate) {
+    row.failures.push(`hit rate ${row.hitRate} < ${thresholds.minHitRate}`);
+  }
+  if (row.meanBias !== null && Math.abs(row.meanBias) > thresholds.maxAbsBias) {
+    row.failures.push(`|bias| ${Math.abs(row.meanBias)} > ${thresholds.maxAbsBias}`);
+  }
+  if (row.variance !== null && row.variance > thresholds.maxVariance) {
+    row.failures.push(`variance ${row.variance} > ${thresholds.maxVariance}`);
+  }
+  return row;
+}
+
+/**
+ * Score replayed samples against the golden bands. One row per provider and
+ * prompt version, plus a 'pipeline' row: the cross-provider average the
+ * analyzer would report, per brand and recording run.
+ */
+export function buildCalibrationReport(goldenSet: GoldenSet, samples: CalibrationSample[]): CalibrationRow[] {
+  const golden = new Map(goldenSet.brands.map(b => [b.brand, b]));
+  const groups = new Map<string, { provider: string; prompt: string; scored: Scored[]; parseFailures: number; missing: number }>();
+  const pipelineRuns = new Map<string, { brand: string; scores: number[] }>();
+  const pipelinePrompts = new Set<string>();
+
+  for (const sample of samples) {
+    if (!golden.has(sample.brand)) continue;
+
+    const key = `${sample.provider}|${sample.prompt}`;
+    const group = groups.get(key) || { provider: sample.provider, prompt: sample.prompt, scored: [], parseFailures: 0, missing: 0 };
+    groups.set(key, group);
+
+    if (sample.outcome === 'parse-failure') {
+      group.parseFailures++;
+    } else if (sample.outcome === 'missing') {
+      group.missing++;
+    } else {
+      group.scored.push({ brand: sample.brand, score: sample.outcome });
+
+      pipelinePrompts.add(sample.prompt);
+      const runKey = JSON.stringify([sample.brand, sample.run]);
+      const run = pipelineRuns.get(runKey) || { brand: sample.brand, scores: [] };
+      run.scores.push(sample.outcome);
+      pipelineRuns.set(runKey, run);
+    }
+  }
+
+  const rows = [...groups.values()]
+    .map(g => summarize(g.provider, g.prompt, g.scored, g.parseFailures, g.missing, golden, goldenSet.thresholds))
+    .sort((a, b) => a.provider.localeCompare(b.provider) || a.prompt.localeCompare(b.prompt));
+
+  if (pipelineRuns.size > 0) {
+    const scored = [...pipelineRuns.values()].map(run => ({
+      brand: run.brand,
+      score: Math.round(run.scores.reduce((sum, s) => sum + s, 0) / run.scores.length)
+    }));
+    rows.push(summarize('pipeline', [...pipelinePrompts].sort().join(', '), scored, 0, 0, golden, goldenSet.thresholds));
+  }
+
+  return rows;
+}
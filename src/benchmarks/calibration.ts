@@ -0,0 +1,217 @@
+import { readFile, readdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { env } from '../config/env.js';
+import { AIProvider } from '../modules/analyzer/providers/types.js';
+import { DEFAULT_PROMPT_VERSIONS, PromptId } from '../modules/analyzer/providers/prompts.js';
+import { ProviderParseError } from '../modules/analyzer/providers/result-schema.js';
+import { ReplayMissError, hasFixtures } from '../shared/provider-http.js';
+import { CalibrationRow, CalibrationSample, GoldenSet, buildCalibrationReport } from './calibration-report.js';
+
+/**
+ * Offline calibration benchmark.
+ *
+ *   npm run calibrate -- [--prompt geo-brutal=3.5-bands] [--provider gemini] [--gate] [--json report.json]
+ *   npm run calibrate:record -- [--samples 3] [--prompt geo-brutal=3.5-bands] [--provider gemini] [--brand Nike]
+ *
+ * `record` calls the live providers for every golden brand with
+ * PROVIDER_HTTP_MODE=record, so each sample's HTTP responses land in
+ * benchmarks/calibration/recordings/sample-<n> as provider fixtures. The
+ * default mode replays them through the real providers (prompt rendering,
+ * request, parsing) and reports band hit-rate, mean bias and variance per
+ * provider and prompt version. A prompt that renders differently from what
+ * was recorded finds no fixture and shows up as missing samples. With --gate
+ * it exits 1 when any row misses the thresholds in golden-set.json, or when
+ * there is nothing to score.
+ */
+
+const BENCH_DIR = path.resolve('benchmarks/calibration');
+const RECORDINGS_DIR = path.join(BENCH_DIR, 'recordings');
+
+type Args = {
+  mode: 'run' | 'record';
+  prompts: Partial<Record<PromptId, string>>;
+  provider?: string;
+  brand?: string;
+  samples: number;
+  gate: boolean;
+  json?: string;
+};
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { mode: 'run', prompts: {}, samples: 1, gate: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      if (argv[i + 1] === undefined) throw new Error(`${arg} needs a value`);
+      return argv[++i];
+    };
+
+    if (arg === 'record') args.mode = 'record';
+    else if (arg === '--prompt') {
+      const [id, version] = next().split('=');
+      args.prompts[id as PromptId] = version;
+    }
+    else if (arg === '--provider') args.provider = next();
+    else if (arg === '--brand') args.brand = next();
+    else if (arg === '--samples') args.samples = Number(next());
+    else if (arg === '--gate') args.gate = true;
+    else if (arg === '--json') args.json = next();
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  return args;
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Each recording run is its own fixtures dir, so repeated prompts still get one answer per run
+function sampleDir(run: number) {
+  return path.join(RECORDINGS_DIR, `sample-${run}`);
+}
+
+async function recordedRuns(): Promise<number[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(RECORDINGS_DIR);
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  return entries
+    .map(e => /^sample-(\d+)$/.exec(e)?.[1])
+    .filter(Boolean)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+// Unwrapped providers: no cache, so every call reaches the record/replay layer
+async function loadProviders(args: Args): Promise<AIProvider[]> {
+  const { createProviders } = await import('../modules/analyzer/provider-registry.js');
+  return (await createProviders()).filter(p => !args.provider || p.name === args.provider);
+}
+
+// Version label of everything a provider renders, e.g. geo-ultimate@3.5 + geo-verification@2.0
+function promptLabel(provider: AIProvider, versions: Record<string, string>) {
+  return provider.prompts.map(id => `${id}@${versions[id]}`).join(' + ');
+}
+
+async function record(goldenSet: GoldenSet, args: Args) {
+  env.PROVIDER_HTTP_MODE = 'record';
+  const brands = goldenSet.brands.filter(b => !args.brand || b.brand === args.brand);
+
+  // Re-recording a run overwrites the fixtures of the same prompts
+  for (let run = 1; run <= args.samples; run++) {
+    env.PROVIDER_FIXTURES_DIR = sampleDir(run);
+    const providers = await loadProviders(args);
+    console.log(`🎙️ Recording sample ${run}/${args.samples}: ${brands.length} brands × ${providers.length} providers`);
+
+    // One call at a time: this is a benchmark, not a load test
+    for (const provider of providers) {
+      for (const { brand } of brands) {
+        try {
+          const result = await provider.analyze(brand, { promptVersions: args.prompts, forceRefresh: true });
+          console.log(`  ✅ ${provider.name} ${brand}: ${result.score}`);
+        } catch (error) {
+          console.error(`  ❌ ${provider.name} ${brand}:`, error.message);
+        }
+      }
+    }
+  }
+}
+
+async function replay(goldenSet: GoldenSet, args: Args, versions: Record<string, string>): Promise<CalibrationSample[]> {
+  env.PROVIDER_HTTP_MODE = 'replay';
+  const samples: CalibrationSample[] = [];
+
+  for (const run of await recordedRuns()) {
+    env.PROVIDER_FIXTURES_DIR = sampleDir(run);
+    // Replay enables exactly the providers that have fixtures in this run
+    const providers = (await loadProviders(args)).filter(p => hasFixtures(p.name));
+
+    for (const provider of providers) {
+      const prompt = promptLabel(provider, versions);
+      for (const { brand } of goldenSet.brands) {
+        let outcome: CalibrationSample['outcome'];
+        try {
+          outcome = (await provider.analyze(brand, { promptVersions: args.prompts })).score;
+        } catch (error) {
+          if (error instanceof ProviderParseError) outcome = 'parse-failure';
+          // The OpenAI SDK sees a replay miss as a 404 response
+          else if (error instanceof ReplayMissError || error.status === 404) outcome = 'missing';
+          else throw error;
+        }
+        samples.push({ brand, provider: provider.name, prompt, run, outcome });
+      }
+    }
+  }
+
+  return samples;
+}
+
+function printReport(rows: CalibrationRow[]) {
+  console.table(rows.map(r => ({
+    provider: r.provider,
+    prompt: r.prompt,
+    brands: r.brands,
+    samples: r.samples,
+    parseFailures: r.parseFailures,
+    missing: r.missing,
+    hitRate: r.hitRate,
+    meanBias: r.meanBias,
+    variance: r.variance,
+    status: r.failures.length > 0 ? `❌ ${r.failures.join('; ')}` : '✅'
+  })));
+}
+
+async function run(goldenSet: GoldenSet, args: Args) {
+  const rows = buildCalibrationReport(
+    goldenSet,
+    await replay(goldenSet, args, { ...DEFAULT_PROMPT_VERSIONS, ...args.prompts })
+  );
+
+  if (rows.length === 0) {
+    console.log(`⚠️ No recordings in ${RECORDINGS_DIR} - run "npm run calibrate:record" first`);
+    return args.gate ? 1 : 0;
+  }
+
+  printReport(rows);
+
+  if (args.json) {
+    await writeFile(args.json, JSON.stringify({ thresholds: goldenSet.thresholds, rows }, null, 2) + '\n');
+    console.log(`📄 Report written to ${args.json}`);
+  }
+
+  const failing = rows.filter(r => r.failures.length > 0);
+  if (args.gate && failing.length > 0) {
+    console.error(`❌ Calibration gate failed for ${failing.length} row(s)`);
+    return 1;
+  }
+  return 0;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const goldenSet = await readJson<GoldenSet>(path.join(BENCH_DIR, 'golden-set.json'));
+  if (!goldenSet) throw new Error(`Missing ${path.join(BENCH_DIR, 'golden-set.json')}`);
+
+  if (args.mode === 'record') {
+    await record(goldenSet, args);
+    return 0;
+  }
+  return run(goldenSet, args);
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌ Calibration failed:', error.message);
+    process.exit(1);
+  });
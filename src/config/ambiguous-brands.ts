@@ -0,0 +1,73 @@
+/**
+ * One entity a brand name can refer to. Picking a candidate means resending
+ * the analyze request with its domain/industry/country as context.
+ */
+export type BrandCandidate = {
+  label: string;
+  domain: string;
+  industry: string;
+  country: string;
+};
+
+export type AmbiguousBrand = {
+  names: string[];          // lowercase spellings that trigger the step
+  candidates: BrandCandidate[];
+};
+
+// Names that mean several well-known entities. Analyzing one of these without
+// any context returns a disambiguation step instead of starting a job.
+export const AMBIGUOUS_BRANDS: AmbiguousBrand[] = [
+  {
+    names: ['apple'],
+    candidates: [
+      { label: 'Apple Inc.', domain: 'apple.com', industry: 'Consumer electronics', country: 'US' },
+      { label: 'Apple Corps', domain: 'applecorps.com', industry: 'Music and media', country: 'UK' },
+      { label: 'Apple Bank', domain: 'applebank.com', industry: 'Banking', country: 'US' }
+    ]
+  },
+  {
+    names: ['mercury'],
+    candidates: [
+      { label: 'Mercury (banking)', domain: 'mercury.com', industry: 'Business banking', country: 'US' },
+      { label: 'Mercury Marine', domain: 'mercurymarine.com', industry: 'Marine engines', country: 'US' },
+      { label: 'Mercury Insurance', domain: 'mercuryinsurance.com', industry: 'Insurance', country: 'US' }
+    ]
+  },
+  {
+    names: ['delta'],
+    candidates: [
+      { label: 'Delta Air Lines', domain: 'delta.com', industry: 'Airline', country: 'US' },
+      { label: 'Delta Faucet', domain: 'deltafaucet.com', industry: 'Plumbing fixtures', country: 'US' },
+      { label: 'Delta Electronics', domain: 'deltaww.com', industry: 'Power electronics', country: 'Taiwan' },
+      { label: 'Delta Dental', domain: 'deltadental.com', industry: 'Dental insurance', country: 'US' }
+    ]
+  },
+  {
+    names: ['dove'],
+    candidates: [
+      { label: 'Dove (personal care)', domain: 'dove.com', industry: 'Personal care', country: 'UK' },
+      { label: 'Dove Chocolate', domain: 'dovechocolate.com', industry: 'Confectionery', country: 'US' }
+    ]
+  },
+  {
+    names: ['mint'],
+    candidates: [
+      { label: 'Mint Mobile', domain: 'mintmobile.com', industry: 'Mobile carrier', country: 'US' },
+      { label: 'Intuit Mint', domain: 'mint.intuit.com', industry: 'Personal finance', country: 'US' }
+    ]
+  },
+  {
+    names: ['square'],
+    candidates: [
+      { label: 'Square (payments)', domain: 'squareup.com', industry: 'Payments', country: 'US' },
+      { label: 'Square Enix', domain: 'square-enix.com', industry: 'Video games', country: 'Japan' }
+    ]
+  },
+  {
+    names: ['polo'],
+    candidates: [
+      { label: 'Polo Ralph Lauren', domain: 'ralphlauren.com', industry: 'Fashion', country: 'US' },
+      { label: 'Volkswagen Polo', domain: 'vw.com', industry: 'Automotive', country: 'Germany' }
+    ]
+  }
+];
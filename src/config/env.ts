@@ -9,13 +9,67 @@ export const env = {
   CORS_ORIGIN: process.env.CORS_ORIGIN || '*',
   RL_ANALYZE_PER_MIN: Number(process.env.RL_ANALYZE_PER_MIN || 50),
   CACHE_TTL: Number(process.env.CACHE_TTL || 3600),
+  // Website crawler (Structured Data criterion); fixtures dir replaces live HTTP
+  CRAWLER_TIMEOUT_MS: Number(process.env.CRAWLER_TIMEOUT_MS || 5000),
+  CRAWLER_FIXTURES_DIR: process.env.CRAWLER_FIXTURES_DIR || '',
+  // Answer probing: category questions asked to every provider (1-10)
+  PROBE_QUESTIONS: Number(process.env.PROBE_QUESTIONS || 5),
+  // A comparison 'processing' with no brand started for this long is taken as crashed and can be re-run
+  COMPARISON_STALE_MS: Number(process.env.COMPARISON_STALE_MS || 1800000),
+  // Retrieved brand documents injected into provider prompts
+  RAG_CONTEXT_TOKENS: Number(process.env.RAG_CONTEXT_TOKENS || 800),
+  RAG_MAX_DOCUMENTS: Number(process.env.RAG_MAX_DOCUMENTS || 6),
+  RAG_MIN_SCORE: Number(process.env.RAG_MIN_SCORE || 0.75),
+  // Uploaded brand documents: chunk size and overlap between chunks
+  DOC_CHUNK_TOKENS: Number(process.env.DOC_CHUNK_TOKENS || 300),
+  DOC_CHUNK_OVERLAP: Number(process.env.DOC_CHUNK_OVERLAP || 50),
+  // G-Eval groundedness of provider claims against uploaded brand documents
+  GEVAL_ENABLED: process.env.GEVAL_ENABLED !== 'false',
+  GEVAL_MAX_CLAIMS: Number(process.env.GEVAL_MAX_CLAIMS || 10),        // per provider
+  GEVAL_FLAG_RATE: Number(process.env.GEVAL_FLAG_RATE || 0.5),         // hallucination rate that flags a provider
+  GEVAL_FLAGGED_WEIGHT: Number(process.env.GEVAL_FLAGGED_WEIGHT || 0.5), // flagged provider's weight in the score
+  // A job still processing this long after it started is taken as dead (its process exited
+  // mid-run): progress streams stop waiting for it
+  JOB_STALE_MS: Number(process.env.JOB_STALE_MS || 600000),
+  // Analyze request deduplication
+  INFLIGHT_TTL_MS: Number(process.env.INFLIGHT_TTL_MS || 300000),
+  IDEMPOTENCY_TTL_MS: Number(process.env.IDEMPOTENCY_TTL_MS || 86400000),
   JWT_SECRET: process.env.JWT_SECRET || 'secret',
-  // Qdrant configuration for RAG Pipeline
-  QDRANT_URL: process.env.QDRANT_URL || 'http://localhost:6333',
+  // Tenant of a request: static | jwt (tenantId claim) | subdomain; falls back to TENANT_STATIC_ID
+  TENANT_RESOLVER: (process.env.TENANT_RESOLVER || 'static') as 'static' | 'jwt' | 'subdomain',
+  TENANT_STATIC_ID: process.env.TENANT_STATIC_ID || 'public',
+  // Admin endpoints are disabled while unset
+  ADMIN_API_KEY: process.env.ADMIN_API_KEY || '',
+  // RAG vector store: qdrant | pgvector | memory | none (default: qdrant if QDRANT_URL is set, else memory)
+  VECTOR_STORE: process.env.VECTOR_STORE || '',
+  QDRANT_URL: process.env.QDRANT_URL || '',
   QDRANT_API_KEY: process.env.QDRANT_API_KEY || '',
+  QDRANT_COLLECTION: process.env.QDRANT_COLLECTION || 'brain-index-documents',
+  PGVECTOR_TABLE: process.env.PGVECTOR_TABLE || 'rag_documents',
+  // RAG embeddings: openai (or any OpenAI-compatible URL) | local (default: openai if a key is set)
+  EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER || '',
+  EMBEDDING_MODEL: process.env.EMBEDDING_MODEL || 'text-embedding-ada-002',
+  EMBEDDING_DIMENSIONS: Number(process.env.EMBEDDING_DIMENSIONS || 1536),
+  EMBEDDING_BASE_URL: process.env.EMBEDDING_BASE_URL || '',
+  EMBEDDING_API_KEY: process.env.EMBEDDING_API_KEY || '',
   // AI Provider API Keys
   DEEPSEEK_API_KEY: process.env.DEEPSEEK_API_KEY || '',
   MISTRAL_API_KEY: process.env.MISTRAL_API_KEY || '',
   GROK_API_KEY: process.env.GROK_API_KEY || '',
   GEMINI_API_KEY: process.env.GEMINI_API_KEY || '',
+  PERPLEXITY_API_KEY: process.env.PERPLEXITY_API_KEY || '',
+  ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY || '',
+  // Provider resilience
+  AI_RETRY_ATTEMPTS: Number(process.env.AI_RETRY_ATTEMPTS || 2),
+  AI_RETRY_MIN_MS: Number(process.env.AI_RETRY_MIN_MS || 500),
+  AI_RETRY_MAX_MS: Number(process.env.AI_RETRY_MAX_MS || 4000),
+  // Provider HTTP record/replay: live | record | replay
+  PROVIDER_HTTP_MODE: (process.env.PROVIDER_HTTP_MODE || 'live') as 'live' | 'record' | 'replay',
+  PROVIDER_FIXTURES_DIR: process.env.PROVIDER_FIXTURES_DIR || 'fixtures/providers',
+  // Local simulation: provider names (or 'all') to replace with SimulatedProvider
+  SIMULATE_PROVIDERS: process.env.SIMULATE_PROVIDERS || '',
+  SIMULATED_LATENCY_MS: Number(process.env.SIMULATED_LATENCY_MS || 800),
+  SIMULATED_JITTER_MS: Number(process.env.SIMULATED_JITTER_MS || 400),
+  SIMULATED_ERROR_RATE: Number(process.env.SIMULATED_ERROR_RATE || 0),      // 0..1, fails with 503
+  SIMULATED_TIMEOUT_RATE: Number(process.env.SIMULATED_TIMEOUT_RATE || 0),  // 0..1, hangs for AI_TIMEOUT_MS
 };
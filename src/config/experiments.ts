@@ -0,0 +1,26 @@
+import type { PromptId } from '../modules/analyzer/providers/prompts.js';
+
+/**
+ * A/B test between two registered versions of one prompt. Analyses are split
+ * deterministically by job (or comparison) id; every provider that uses the
+ * prompt gets the same arm within one analysis.
+ */
+export type PromptExperiment = {
+  id: string;
+  promptId: PromptId;
+  control: string;        // prompt version
+  variant: string;        // prompt version
+  variantShare: number;   // 0..1, share of analyses on the variant
+  active: boolean;        // inactive experiments stop assigning but keep their report
+};
+
+// At most one active experiment per prompt. Example:
+// {
+//   id: 'brutal-3.5-bands',
+//   promptId: 'geo-brutal',
+//   control: '3.4-structured',
+//   variant: '3.5-bands',
+//   variantShare: 0.5,
+//   active: true
+// }
+export const PROMPT_EXPERIMENTS: PromptExperiment[] = [];
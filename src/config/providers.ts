@@ -0,0 +1,78 @@
+import type { ProviderName } from '../modules/analyzer/providers/types.js';
+import type { PromptId } from '../modules/analyzer/providers/prompts.js';
+import type { FEATURE_FLAGS } from './features.js';
+
+// OpenAI-compatible chat-completions vendors. Adding a vendor = adding an entry
+// here: ProviderName and the per-provider result fields follow from it, and the
+// registry builds one ChatCompletionsProvider per entry. Disable one with
+// PROVIDER_<NAME>_ENABLED=false; entries with a `featureFlag` also need that
+// flag turned on.
+export interface ChatCompletionsConfig {
+  name: string;           // Provider name (ProviderName is derived from these)
+  label: string;          // Used in logs and error messages
+  baseUrl: string;        // Requests go to `${baseUrl}/chat/completions`
+  apiKeyEnv: string;      // Env var holding the API key
+  authHeader?: string;    // Default: Authorization
+  authScheme?: string;    // Default: Bearer
+  model: string;
+  maxTokens: number;
+  temperature?: number;   // Default: 0.1 (strict scoring)
+  promptId: PromptId;
+  // response_format to request. Default: json_object
+  responseFormat?: 'json_object' | 'json_schema' | 'none';
+  sources?: boolean;      // Capture citations/search_results returned with the answer
+  featureFlag?: keyof typeof FEATURE_FLAGS;  // Opt-in: off unless the flag is on
+}
+
+export const CHAT_COMPLETIONS_PROVIDERS = [
+  {
+    name: 'deepseek',
+    label: 'DeepSeek',
+    baseUrl: 'https://api.deepseek.com/v1',
+    apiKeyEnv: 'DEEPSEEK_API_KEY',
+    model: 'deepseek-chat',
+    maxTokens: 1000,
+    promptId: 'geo-brutal'
+  },
+  {
+    name: 'mistral',
+    label: 'Mistral',
+    baseUrl: 'https://api.mistral.ai/v1',
+    apiKeyEnv: 'MISTRAL_API_KEY',
+    model: 'mistral-small-latest',
+    maxTokens: 1000,
+    promptId: 'geo-brutal-compact'
+  },
+  {
+    name: 'grok',
+    label: 'Grok',
+    baseUrl: 'https://api.x.ai/v1',
+    apiKeyEnv: 'GROK_API_KEY',
+    model: 'grok-beta',
+    maxTokens: 1000,
+    promptId: 'geo-brutal'
+  },
+  {
+    name: 'perplexity',
+    label: 'Perplexity',
+    baseUrl: 'https://api.perplexity.ai',
+    apiKeyEnv: 'PERPLEXITY_API_KEY',
+    model: 'sonar',
+    maxTokens: 1000,
+    promptId: 'geo-brutal',
+    responseFormat: 'json_schema', // Perplexity has no json_object mode
+    sources: true,
+    featureFlag: 'ENABLE_PERPLEXITY'
+  }
+] as const satisfies readonly ChatCompletionsConfig[];
+
+// Providers with their own client code (provider-registry.ts)
+export const NATIVE_PROVIDERS = ['chatgpt', 'gemini', 'claude'] as const;
+
+// Every provider, in registry order
+export const PROVIDER_NAMES: ProviderName[] = [
+  'chatgpt',
+  ...CHAT_COMPLETIONS_PROVIDERS.map(c => c.name),
+  'gemini',
+  'claude'
+];
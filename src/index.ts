@@ -1,10 +1,27 @@
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
+import websocket from '@fastify/websocket';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { prisma } from './prisma/client.js';
 import { contextService } from './services/context.service.js';
 import { buildProviders } from './modules/analyzer/provider-registry.js';
-import { AIProvider } from './modules/analyzer/providers/types.js';
+import { runMultiProviderAnalysis } from './modules/analyzer/pipeline.js';
+import progressRoutes from './modules/analyzer/progress.controller.js';
+import monitorRoutes from './modules/monitors/monitor.controller.js';
+import comparisonRoutes from './modules/comparisons/comparison.controller.js';
+import experimentRoutes from './modules/analyzer/experiments.controller.js';
+import documentRoutes from './modules/documents/document.controller.js';
+import { DEFAULT_PROMPT_VERSIONS } from './modules/analyzer/providers/prompts.js';
+import { startAnalyzeWorker } from './queue/index.js';
+import { JWT_SECRET, verifyToken } from './middleware/auth.js';
+import { resolveTenantId } from './plugins/tenant.js';
+import { FEATURE_FLAGS } from './config/features.js';
+import { DASHBOARD_PERIODS, DashboardPeriod, getDashboardMetrics } from './modules/analyzer/dashboard-metrics.js';
+import { IdempotencyConflictError, claimAnalysis } from './modules/analyzer/dedup.js';
+import { findDisambiguation, parseBrandContext } from './modules/analyzer/brand-context.js';
+import { createJob, getJob, getUserAnalyses, getUserStats, getUserProviderAverages } from './modules/analyzer/analysis-store.js';
 
 const fastify = Fastify({
   logger: true
@@ -15,23 +32,37 @@ const providers = await buildProviders('pro');
 
 console.log(`✅ Initialized ${providers.length} PRO providers:`, providers.map(p => p.name).join(', '));
 
+// Queue worker runs scheduled monitors with the same providers
+startAnalyzeWorker(providers);
+
 // Initialize RAG Pipeline
 await contextService.initialize();
-console.log('✅ RAG Pipeline initialized with Qdrant');
 console.log('✅ Ultimate GEO v3.2 PRO-only with GEO visibility ready');
 
-// Temporary in-memory storage
-const jobResults = new Map();
-const users = new Map();
-
-// JWT secret
-const JWT_SECRET = process.env.JWT_SECRET || 'brain-index-secret-2025';
-
 // Register CORS
 await fastify.register(cors, {
   origin: true
 });
 
+if (FEATURE_FLAGS.ENABLE_WEBSOCKET) {
+  await fastify.register(websocket);
+}
+
+// Live job progress (SSE / WebSocket, behind feature flags)
+await fastify.register(progressRoutes);
+
+// Scheduled brand monitoring
+await fastify.register(monitorRoutes);
+
+// Competitor comparisons
+await fastify.register(comparisonRoutes, { providers });
+
+// Uploaded brand material for RAG context
+await fastify.register(documentRoutes);
+
+// Prompt registry + A/B experiment reports (admin)
+await fastify.register(experimentRoutes);
+
 // Health check endpoint
 fastify.get('/health', async (request, reply) => {
   return { 
@@ -41,7 +72,7 @@ fastify.get('/health', async (request, reply) => {
     version: '3.2.0-pro-only',
     features: 'Ultimate GEO Analysis (8 criteria: 7 standard + GEO visibility)',
     providers: providers.map(p => p.name),
-    promptVersion: '3.2-ultimate-pro-calibrated'
+    prompts: DEFAULT_PROMPT_VERSIONS
   };
 });
 
@@ -49,24 +80,22 @@ fastify.get('/health', async (request, reply) => {
 fastify.post('/api/auth/register', async (request, reply) => {
   const { name, email, password } = request.body as { name: string; email: string; password: string };
   
-  if (users.has(email)) {
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing) {
     reply.code(400);
     return { message: 'User already exists' };
   }
   
   const hashedPassword = await bcrypt.hash(password, 10);
   
-  const user = {
-    id: Math.random().toString(36).substring(7),
-    name,
-    email,
-    password: hashedPassword,
-    plan: 'FREE',
-    createdAt: new Date().toISOString(),
-    analyses: []
-  };
+  const user = await prisma.user.create({
+    data: {
+      name,
+      email,
+      password: hashedPassword
+    }
+  });
   
-  users.set(email, user);
   console.log('User registered:', email);
   
   return { 
@@ -78,7 +107,7 @@ fastify.post('/api/auth/register', async (request, reply) => {
 fastify.post('/api/auth/login', async (request, reply) => {
   const { email, password } = request.body as { email: string; password: string };
   
-  const user = users.get(email);
+  const user = await prisma.user.findUnique({ where: { email } });
   if (!user) {
     reply.code(401);
     return { message: 'Invalid email or password' };
@@ -113,27 +142,9 @@ fastify.post('/api/auth/login', async (request, reply) => {
   };
 });
 
-// Middleware to verify JWT token
-async function verifyToken(request: any, reply: any) {
-  try {
-    const authHeader = request.headers.authorization;
-    if (!authHeader) {
-      reply.code(401);
-      return reply.send({ message: 'No token provided' });
-    }
-    
-    const token = authHeader.replace('Bearer ', '');
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
-    request.user = decoded;
-  } catch (error) {
-    reply.code(401);
-    return reply.send({ message: 'Invalid token' });
-  }
-}
-
 // Protected endpoints
 fastify.get('/api/user/profile', { preHandler: verifyToken }, async (request: any, reply) => {
-  const user = users.get(request.user.email);
+  const user = await prisma.user.findUnique({ where: { id: request.user.userId } });
   if (!user) {
     reply.code(404);
     return { message: 'User not found' };
@@ -144,49 +155,116 @@ fastify.get('/api/user/profile', { preHandler: verifyToken }, async (request: an
     name: user.name,
     email: user.email,
     plan: user.plan,
-    createdAt: user.createdAt
+    createdAt: user.createdAt.toISOString()
   };
 });
 
 fastify.get('/api/user/analyses', { preHandler: verifyToken }, async (request: any, reply) => {
-  const user = users.get(request.user.email);
+  const user = await prisma.user.findUnique({ where: { id: request.user.userId } });
   if (!user) {
     reply.code(404);
     return { message: 'User not found' };
   }
   
+  const analyses = await getUserAnalyses(user.id);
+  
   return {
-    analyses: user.analyses || [],
-    total: user.analyses?.length || 0
+    analyses,
+    total: analyses.length
   };
 });
 
 // MAIN ANALYZER - PRO only
 fastify.post('/api/analyzer/analyze', async (request: any, reply) => {
-  const { input } = request.body as { input: string };
-  const jobId = Math.random().toString(36).substring(7);
+  const { input, force_refresh, probe } = (request.body || {}) as { input: string; force_refresh?: boolean; probe?: boolean };
+  if (typeof input !== 'string' || !input.trim()) {
+    reply.code(400);
+    return { message: 'input must be a non-empty string' };
+  }
+  const jobId = randomUUID();
   
   let userId = 'anonymous';
-  let userEmail = null;
   let userPlan = 'FREE';
+  let user;
   
   const authHeader = request.headers.authorization;
   if (authHeader) {
     try {
       const token = authHeader.replace('Bearer ', '');
       const decoded = jwt.verify(token, JWT_SECRET) as any;
+      user = decoded;
       userId = decoded.userId;
-      userEmail = decoded.email;
       userPlan = decoded.plan || 'FREE';
     } catch (error) {
       // Continue as anonymous
     }
   }
   
+  // Optional domain / industry / country / aliases pin down which brand is meant
+  let context;
+  try {
+    context = parseBrandContext(request.body);
+  } catch (error) {
+    reply.code(400);
+    return { message: error.message };
+  }
+  
+  const candidates = findDisambiguation(input, context);
+  if (candidates) {
+    return {
+      status: 'disambiguation_required',
+      input,
+      message: `"${input}" can refer to several brands. Resend the request with the domain, industry or country of the one you mean.`,
+      candidates
+    };
+  }
+  
+  const idempotencyKey = request.headers['idempotency-key'] as string | undefined;
+  if (idempotencyKey !== undefined && (idempotencyKey.length === 0 || idempotencyKey.length > 255)) {
+    reply.code(400);
+    return { message: 'Idempotency-Key must be 1-255 characters' };
+  }
+  
+  // Retries and double-clicks join the job that is already running
+  let claim;
+  try {
+    const scope = userId === 'anonymous' ? `ip:${request.ip}` : `user:${userId}`;
+    claim = await claimAnalysis(scope, input, context, { probe: probe === true, forceRefresh: force_refresh === true }, jobId, idempotencyKey);
+  } catch (error) {
+    if (!(error instanceof IdempotencyConflictError)) throw error;
+    reply.code(422);
+    return { message: error.message };
+  }
+  
+  if (claim.duplicate) {
+    console.log(`♻️ Duplicate analyze request for "${input}" → job ${claim.jobId}`);
+    return {
+      jobId: claim.jobId,
+      status: 'accepted',
+      duplicate: true,
+      input: input,
+      providers: providers.map(p => p.name),
+      type: 'ultimate-geo-v3.2-pro'
+    };
+  }
+  
   console.log(`🎯 Starting PRO analysis with ${providers.length} provider(s)`);
   
+  try {
+    await createJob(jobId, input, userId === 'anonymous' ? null : userId);
+  } catch (error) {
+    await claim.abandon();
+    throw error;
+  }
+  
   // Start async analysis
-  runMultiProviderAnalysis(input, jobId, userId, userEmail, providers);
+  runMultiProviderAnalysis(input, jobId, userId, providers, {
+    forceRefresh: force_refresh === true,
+    context,
+    probe: probe === true,
+    tenantId: resolveTenantId(request, user)
+  })
+    .finally(() => claim.release());
   
   return {
     jobId,
@@ -197,179 +275,13 @@ fastify.post('/api/analyzer/analyze', async (request: any, reply) => {
   };
 });
 
-// Multi-provider analysis (PRO only)
-async function runMultiProviderAnalysis(
-  brandName: string,
-  jobId: string,
-  userId: string,
-  userEmail: string | null,
-  providers: AIProvider[]
-) {
-  try {
-    console.log(`\n🎯 PRO GEO Analysis - Brand: ${brandName}`);
-    
-    jobResults.set(jobId, {
-      jobId,
-      status: 'processing',
-      brandName,
-      userId,
-      timestamp: new Date().toISOString()
-    });
-    
-    // Run analysis with ALL available providers
-    console.log(`📡 Running ${providers.length} providers:`, providers.map(p => p.name).join(', '));
-    
-    const results = await Promise.allSettled(
-      providers.map(async (p) => {
-        try {
-          console.log(`  ⏳ Starting ${p.name}...`);
-          const result = await p.analyze(brandName);
-          console.log(`  ✅ ${p.name} succeeded: ${result.score}`);
-          return result;
-        } catch (error) {
-          console.error(`  ❌ ${p.name} failed:`, error.message);
-          throw error;
-        }
-      })
-    );
-    
-    // Collect successful results
-    const successfulResults = results
-      .filter((r): r is PromiseFulfilledResult<any> => r.status === 'fulfilled')
-      .map(r => r.value);
-    
-    const failedProviders = providers.length - successfulResults.length;
-    
-    if (successfulResults.length === 0) {
-      throw new Error('All providers failed');
-    }
-    
-    console.log(`✅ ${successfulResults.length}/${providers.length} providers succeeded${failedProviders > 0 ? ` (${failedProviders} failed)` : ''}`);
-    
-    // Calculate average score
-    const avgScore = Math.round(
-      successfulResults.reduce((sum, r) => sum + r.score, 0) / successfulResults.length
-    );
-    
-    // Get primary result (first successful provider, usually ChatGPT)
-    const primaryResult = successfulResults[0];
-    
-    // Parse detailed breakdown from meta
-    const analysis = primaryResult.meta?.analysis as string || '';
-    
-    // Extract breakdown
-    const breakdownMatch = analysis.match(/DETAILED BREAKDOWN:([\s\S]*?)GEO BREAKDOWN/);
-    const breakdown = breakdownMatch ? breakdownMatch[1].trim() : '';
-    
-    // Extract GEO breakdown
-    const geoMatch = analysis.match(/GEO BREAKDOWN:([\s\S]*?)TOTAL_SCORE/);
-    const geoBreakdown = geoMatch ? geoMatch[1].trim() : '';
-    
-    // Extract critical issues
-    const issuesMatch = analysis.match(/CRITICAL ISSUES[\s\S]*?:([\s\S]*?)KEY OPPORTUNITY/);
-    const criticalIssues = issuesMatch ? issuesMatch[1].trim() : '';
-    
-    // Extract opportunity
-    const opportunityMatch = analysis.match(/KEY OPPORTUNITY:([\s\S]*?)CONFIDENCE/);
-    const keyOpportunity = opportunityMatch ? opportunityMatch[1].trim() : '';
-    
-    // Extract confidence
-    const confidenceMatch = analysis.match(/CONFIDENCE:\s*(High|Medium|Low)/);
-    const confidence = confidenceMatch ? confidenceMatch[1] : 'Medium';
-    
-    // Create flat structure for frontend compatibility
-    const providerScores: any = {};
-    successfulResults.forEach(r => {
-      providerScores[r.name] = r.score;
-    });
-    
-    console.log('📦 Provider scores for frontend:', providerScores);
-    
-    const finalResult = {
-      score: avgScore,
-      // Add flat structure FIRST for frontend compatibility
-      chatgpt: providerScores.chatgpt || 0,
-      deepseek: providerScores.deepseek || 0,
-      mistral: providerScores.mistral || 0,
-      grok: providerScores.grok || 0,
-      gemini: providerScores.gemini || 0,
-      // Keep array for detailed view
-      providers: successfulResults.map(r => ({
-        name: r.name,
-        score: r.score
-      })),
-      breakdown,
-      geoBreakdown,
-      criticalIssues,
-      keyOpportunity,
-      confidence,
-      analysis: primaryResult.meta?.analysis || '',
-      verification: primaryResult.meta?.verification || '',
-      model: primaryResult.meta?.model || 'multi-provider',
-      promptVersion: primaryResult.meta?.promptVersion || '3.2-ultimate-pro-calibrated',
-      timestamp: new Date().toISOString(),
-      brandName
-    };
-    
-    // Store result
-    jobResults.set(jobId, {
-      jobId,
-      status: 'completed',
-      userId,
-      result: finalResult
-    });
-    
-    saveToUserAnalyses(userEmail, finalResult);
-    
-    // Save to RAG
-    await contextService.ingestDocuments([{
-      id: `analysis-${jobId}`,
-      content: `Brand: ${brandName}, PRO GEO Score: ${avgScore}/100`,
-      metadata: {
-        type: 'pro-geo-analysis',
-        brandName,
-        score: avgScore,
-        promptVersion: '3.2-ultimate-pro-calibrated',
-        timestamp: new Date().toISOString()
-      }
-    }]);
-    
-    console.log(`✅ PRO GEO analysis completed for ${brandName}\n`);
-    
-  } catch (error) {
-    console.error('❌ Analysis error:', error);
-    
-    jobResults.set(jobId, {
-      jobId,
-      status: 'completed',
-      userId,
-      result: {
-        score: 30,
-        error: 'Analysis failed',
-        brandName,
-        timestamp: new Date().toISOString()
-      }
-    });
-  }
-}
-
-// Helper to save to user analyses
-function saveToUserAnalyses(userEmail: string | null, result: any) {
-  if (userEmail) {
-    const user = users.get(userEmail);
-    if (user) {
-      if (!user.analyses) user.analyses = [];
-      user.analyses.push(result);
-    }
-  }
-}
-
 // Results endpoint
 fastify.get('/api/analyzer/results/:id', async (request, reply) => {
   const { id } = request.params as { id: string };
   
-  if (jobResults.has(id)) {
-    return jobResults.get(id);
+  const job = await getJob(id);
+  if (job) {
+    return job;
   }
   
   reply.code(404);
@@ -378,29 +290,29 @@ fastify.get('/api/analyzer/results/:id', async (request, reply) => {
 
 // Dashboard data endpoint
 fastify.get('/api/analyzer/dashboard', { preHandler: verifyToken }, async (request: any, reply) => {
-  const user = users.get(request.user.email);
+  const user = await prisma.user.findUnique({ where: { id: request.user.userId } });
   if (!user) {
     reply.code(404);
     return { message: 'User not found' };
   }
   
-  const analyses = user.analyses || [];
-  const totalAnalyses = analyses.length;
-  let averageScore = 0;
-  
-  if (totalAnalyses > 0) {
-    const sum = analyses.reduce((acc: number, analysis: any) => {
-      return acc + (analysis.score || 0);
-    }, 0);
-    averageScore = Math.round(sum / totalAnalyses);
+  const { period = '30d' } = request.query as { period?: DashboardPeriod };
+  if (!Object.keys(DASHBOARD_PERIODS).includes(period)) {
+    reply.code(400);
+    return { message: `period must be one of: ${Object.keys(DASHBOARD_PERIODS).join(', ')}` };
   }
   
+  const { totalAnalyses, averageScore } = await getUserStats(user.id);
+  const recentAnalyses = await getUserAnalyses(user.id, 10);
+  const providerScores = await getUserProviderAverages(user.id);
+  const metrics = await getDashboardMetrics(user.id, period);
+  
   return {
     totalAnalyses,
     averageScore,
-    improvementRate: totalAnalyses > 1 ? '+12%' : '0%',
-    aiMentions: totalAnalyses * 4,
-    recentAnalyses: analyses.slice(-10)
+    providerScores,
+    ...metrics,
+    recentAnalyses
   };
 });
 
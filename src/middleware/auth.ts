@@ -0,0 +1,39 @@
+import jwt from 'jsonwebtoken';
+import { timingSafeEqual } from 'crypto';
+import { env } from '../config/env.js';
+
+// JWT secret
+export const JWT_SECRET = process.env.JWT_SECRET || 'brain-index-secret-2025';
+
+// Middleware to verify JWT token
+export async function verifyToken(request: any, reply: any) {
+  try {
+    const authHeader = request.headers.authorization;
+    if (!authHeader) {
+      reply.code(401);
+      return reply.send({ message: 'No token provided' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    request.user = decoded;
+  } catch (error) {
+    reply.code(401);
+    return reply.send({ message: 'Invalid token' });
+  }
+}
+
+// Middleware for internal endpoints: requires the x-admin-key header
+export async function verifyAdmin(request: any, reply: any) {
+  if (!env.ADMIN_API_KEY) {
+    reply.code(403);
+    return reply.send({ message: 'Admin endpoints are disabled' });
+  }
+
+  const key = Buffer.from(String(request.headers['x-admin-key'] || ''));
+  const expected = Buffer.from(env.ADMIN_API_KEY);
+  if (key.length !== expected.length || !timingSafeEqual(key, expected)) {
+    reply.code(401);
+    return reply.send({ message: 'Invalid admin key' });
+  }
+}
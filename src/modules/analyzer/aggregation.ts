@@ -0,0 +1,135 @@
+import { CRITERIA } from './providers/result-schema.js';
+import { Confidence, CriterionKey, ProviderName, ProviderResult } from './providers/types.js';
+import type { FramingEvidence } from './framing.js';
+
+// A criterion is flagged when providers disagree by more than this share of its max
+const DISAGREEMENT_RATIO = 0.3;
+
+// Two findings with at least this word overlap are treated as the same finding
+const DUPLICATE_SIMILARITY = 0.6;
+
+export type CriterionAggregate = {
+  key: CriterionKey;
+  label: string;
+  max: number;
+  values: Partial<Record<ProviderName, number>>;
+  median: number;
+  spread: number;       // max - min across providers
+  disagreement: boolean;
+  evidence?: FramingEvidence;   // Context Quality only: how providers describe the brand
+};
+
+export type RankedFinding = {
+  rank: number;
+  text: string;
+  providers: ProviderName[];
+};
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+/**
+ * Per-criterion values, median, spread and disagreement flag across all providers
+ */
+export function aggregateCriteria(results: ProviderResult[]): Record<CriterionKey, CriterionAggregate> {
+  const aggregates = {} as Record<CriterionKey, CriterionAggregate>;
+
+  for (const c of CRITERIA) {
+    const values: Partial<Record<ProviderName, number>> = {};
+    for (const r of results) {
+      values[r.name] = r.breakdown[c.key].score;
+    }
+
+    const scores = Object.values(values);
+    const spread = scores.length > 0 ? Math.max(...scores) - Math.min(...scores) : 0;
+
+    aggregates[c.key] = {
+      key: c.key,
+      label: c.label,
+      max: c.max,
+      values,
+      median: median(scores),
+      spread,
+      disagreement: scores.length > 1 && spread > c.max * DISAGREEMENT_RATIO
+    };
+  }
+
+  return aggregates;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(w => w.length > 2)
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Merge findings (issues or opportunities) from all providers into one
+ * deduplicated list. Ranked by how many providers raised a finding, then by
+ * how early in their lists they put it.
+ */
+export function mergeFindings(
+  results: ProviderResult[],
+  pick: (r: ProviderResult) => string[]
+): RankedFinding[] {
+  const groups: {
+    text: string;
+    tokens: Set<string>;
+    providers: Set<ProviderName>;
+    positions: number[];
+  }[] = [];
+
+  for (const r of results) {
+    pick(r).forEach((text, position) => {
+      const tokens = tokenize(text);
+      const group = groups.find(g => similarity(g.tokens, tokens) >= DUPLICATE_SIMILARITY);
+
+      if (group) {
+        group.providers.add(r.name);
+        group.positions.push(position);
+        // Keep the most descriptive wording
+        if (text.length > group.text.length) group.text = text;
+      } else {
+        groups.push({ text, tokens, providers: new Set([r.name]), positions: [position] });
+      }
+    });
+  }
+
+  const avgPosition = (g: { positions: number[] }) =>
+    g.positions.reduce((sum, p) => sum + p, 0) / g.positions.length;
+
+  return groups
+    .sort((a, b) => b.providers.size - a.providers.size || avgPosition(a) - avgPosition(b))
+    .map((g, i) => ({
+      rank: i + 1,
+      text: g.text,
+      providers: [...g.providers]
+    }));
+}
+
+/**
+ * Most common confidence across providers; ties resolve to the lower level
+ */
+export function aggregateConfidence(results: ProviderResult[]): Confidence {
+  const order: Confidence[] = ['Low', 'Medium', 'High'];
+  const counts = order.map(level => results.filter(r => r.confidence === level).length);
+  const best = Math.max(...counts);
+  return best === 0 ? 'Medium' : order[counts.indexOf(best)];
+}
@@ -0,0 +1,133 @@
+import { prisma } from '../../prisma/client.js';
+
+// Persistent job/result storage (replaces the old in-memory jobResults Map)
+
+// Optional owner of the analysis besides the user (a monitor run or a comparison)
+export type JobLinks = {
+  monitorId?: string;
+  comparisonId?: string;
+};
+
+export async function createJob(
+  jobId: string,
+  brandName: string,
+  userId: string | null,
+  links: JobLinks = {}
+) {
+  await prisma.analysis.create({
+    data: {
+      jobId,
+      brandName,
+      userId,
+      ...links,
+      status: 'processing'
+    }
+  });
+}
+
+export async function completeJob(jobId: string, result: any) {
+  await prisma.analysis.update({
+    where: { jobId },
+    data: {
+      status: 'completed',
+      score: result.score,
+      result
+    }
+  });
+}
+
+// Failed jobs are reported as completed (frontend polls on status) but keep
+// score null so they never count towards history or dashboard averages
+export async function failJob(jobId: string, result: any) {
+  await prisma.analysis.update({
+    where: { jobId },
+    data: {
+      status: 'completed',
+      score: null,
+      result
+    }
+  });
+}
+
+export async function getJob(jobId: string) {
+  const record = await prisma.analysis.findUnique({ where: { jobId } });
+  if (!record) return null;
+
+  const userId = record.userId || 'anonymous';
+
+  if (record.status === 'processing') {
+    return {
+      jobId,
+      status: record.status,
+      brandName: record.brandName,
+      userId,
+      timestamp: record.createdAt.toISOString()
+    };
+  }
+
+  return {
+    jobId,
+    status: record.status,
+    userId,
+    result: record.result
+  };
+}
+
+// A user's own analyses: comparison jobs (competitors included) are not counted
+const ownAnalyses = (userId: string) => ({ userId, comparisonId: null, score: { not: null } });
+
+// Successful analyses for a user, oldest first
+export async function getUserAnalyses(userId: string, take?: number) {
+  const records = await prisma.analysis.findMany({
+    where: ownAnalyses(userId),
+    orderBy: { createdAt: take ? 'desc' : 'asc' },
+    take
+  });
+
+  if (take) records.reverse();
+  return records.map(r => r.result);
+}
+
+// Every run of a monitor, newest first (failed runs included, with their error)
+export async function getMonitorHistory(monitorId: string, take = 100) {
+  const records = await prisma.analysis.findMany({
+    where: { monitorId, status: 'completed' },
+    orderBy: { createdAt: 'desc' },
+    take
+  });
+
+  return records.map(r => ({
+    jobId: r.jobId,
+    score: r.score,
+    result: r.result,
+    createdAt: r.createdAt.toISOString()
+  }));
+}
+
+export async function getUserStats(userId: string) {
+  const stats = await prisma.analysis.aggregate({
+    where: ownAnalyses(userId),
+    _count: { _all: true },
+    _avg: { score: true }
+  });
+
+  return {
+    totalAnalyses: stats._count._all,
+    averageScore: Math.round(stats._avg.score || 0)
+  };
+}
+
+// Average score per provider across a user's successful analyses, computed
+// in the database so no result JSON is loaded
+export async function getUserProviderAverages(userId: string): Promise<Record<string, number>> {
+  const rows = await prisma.$queryRaw<{ name: string; score: number }[]>`
+    SELECT p->>'name' AS name, ROUND(AVG((p->>'score')::numeric))::int AS score
+    FROM "Analysis" a,
+      jsonb_array_elements(CASE WHEN jsonb_typeof(a.result->'providers') = 'array' THEN a.result->'providers' ELSE '[]'::jsonb END) p
+    WHERE a."userId" = ${userId} AND a."comparisonId" IS NULL AND a.score IS NOT NULL
+      AND jsonb_typeof(p->'score') = 'number'
+    GROUP BY 1
+  `;
+
+  return Object.fromEntries(rows.map(r => [r.name, r.score]));
+}
@@ -3,6 +3,8 @@ import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService } from '../redis/redis.service';
 import { OpenAI } from 'openai';
+import { getUserStats } from './analysis-store.js';
+import { DashboardPeriod, getDashboardMetrics } from './dashboard-metrics.js';
 
 interface AnalysisResult {
   chatgptScore: number;
@@ -255,37 +257,14 @@ export class AnalyzerService {
     });
   }
 
-  async getAnalyticsData(userId: string) {
-    // Get total analyses count
-    const totalAnalyses = await this.prisma.analysis.count({
-      where: { userId }
-    });
-
-    // Get average score
-    const analyses = await this.prisma.analysis.findMany({
-      where: { userId },
-      select: {
-        chatgptScore: true,
-        googleScore: true
-      }
-    });
-
-    let averageScore = 0;
-    if (analyses.length > 0) {
-      const sum = analyses.reduce((acc, analysis) => {
-        return acc + (analysis.chatgptScore + analysis.googleScore) / 2;
-      }, 0);
-      averageScore = Math.round(sum / analyses.length);
-    }
-
-    // Calculate improvement rate (mock for now)
-    const improvementRate = analyses.length > 1 ? '+12%' : '0%';
+  async getAnalyticsData(userId: string, period: DashboardPeriod = '30d') {
+    const { totalAnalyses, averageScore } = await getUserStats(userId);
+    const metrics = await getDashboardMetrics(userId, period);
 
     return {
       totalAnalyses,
       averageScore,
-      improvementRate,
-      aiMentions: totalAnalyses * 4 // Mock calculation
+      ...metrics
     };
   }
 
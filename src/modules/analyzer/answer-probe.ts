@@ -0,0 +1,240 @@
+import { AIProvider, BrandContext, ProviderName } from './providers/types.js';
+import { brandVariables, renderPrompt } from './providers/prompts.js';
+import { env } from '../../config/env.js';
+
+// The rubric asks models what they think of a brand. Probing asks them what a
+// customer would ask and checks whether the brand actually comes up.
+
+export type ProbeAnswer = {
+  question: string;
+  mentioned: boolean;
+  position: number | null;    // 1-based rank in the answer's list, null if not listed
+  competitors: string[];      // Other brands the answer listed, in order
+  excerpt: string | null;     // What the answer says about the brand
+};
+
+export type ProbeMetrics = {
+  answered: number;
+  mentions: number;
+  mentionRate: number;              // 0..1, answers that name the brand
+  shareOfVoice: number;             // 0..1, the brand's share of all brands named
+  averagePosition: number | null;   // Mean rank where the brand was listed
+  topCompetitors: { name: string; mentions: number }[];
+};
+
+export type ProviderProbe = ProbeMetrics & {
+  name: ProviderName;
+  failed: number;                   // Questions the provider did not answer
+  answers: ProbeAnswer[];
+};
+
+export type ProbeReport = {
+  category: string | null;
+  questionSource: 'generated' | 'industry';
+  promptVersion: string | null;     // probe-questions version, when generated
+  questions: string[];
+  providers: ProviderProbe[];
+  overall: ProbeMetrics;
+  probedAt: string;
+};
+
+const MAX_QUESTIONS = 10;
+const TOP_COMPETITORS = 5;
+const MAX_EXCERPT = 300;
+// Providers tried, in order, to write the questions
+const QUESTION_WRITERS = 2;
+
+// Used when no provider writes usable questions but the industry is known
+const INDUSTRY_QUESTIONS = [
+  (industry: string, where: string) => `What are the best ${industry} brands${where}?`,
+  (industry: string, where: string) => `Which ${industry} company would you recommend${where}?`,
+  (industry: string, where: string) => `Top-rated ${industry} options${where} according to reviews`,
+  (industry: string, where: string) => `What are good affordable ${industry} brands${where}?`,
+  (industry: string, where: string) => `Who are the leading ${industry} companies${where} right now?`,
+  (industry: string, where: string) => `Best ${industry} brands for beginners${where}`,
+  (industry: string, where: string) => `Which ${industry} brand has the best customer service${where}?`,
+  (industry: string, where: string) => `What ${industry} brands do experts recommend${where}?`,
+  (industry: string, where: string) => `Most trusted ${industry} companies${where}`,
+  (industry: string, where: string) => `Which ${industry} brands are worth the money${where}?`
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Matches the brand or any alias as a whole word, case-insensitive
+ */
+export function brandPattern(brandName: string, aliases: string[] = []): RegExp {
+  const names = [brandName, ...aliases].map(n => n.trim()).filter(Boolean).map(escapeRegExp);
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.join('|')})(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+/**
+ * Items of the first list in an answer: numbered items if there are any,
+ * bullets otherwise
+ */
+export function parseListItems(answer: string): string[] {
+  const lines = answer.split(/\r?\n/);
+  const numbered = lines.map(l => l.match(/^\s*(?:\*\*)?\d{1,2}[.)]\s+(.+)$/)).filter(Boolean).map(m => m[1]);
+  if (numbered.length > 0) return numbered;
+  return lines.map(l => l.match(/^\s*[-*•]\s+(.+)$/)).filter(Boolean).map(m => m[1]);
+}
+
+// "**Asana** - great for teams" → "Asana"; null when the item is a sentence
+function itemName(item: string): string | null {
+  const bold = item.match(/\*\*(.+?)\*\*/);
+  const text = (bold ? bold[1] : item.split(/\s[-–—]\s|:\s|\s\(/)[0])
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '')
+    .replace(/[:.,]+$/, '')
+    .trim();
+  if (!text || text.length > 60 || text.split(/\s+/).length > 6) return null;
+  return text;
+}
+
+/**
+ * Whether one answer names the brand, where it ranks and who else it lists
+ */
+export function analyzeAnswer(question: string, answer: string, pattern: RegExp): ProbeAnswer {
+  const items = parseListItems(answer);
+  const index = items.findIndex(item => pattern.test(item));
+  const competitors = items
+    .filter(item => !pattern.test(item))
+    .map(itemName)
+    .filter((name): name is string => !!name);
+
+  // The brand's list item, otherwise the sentences that name it
+  const excerpt = index >= 0
+    ? items[index]
+    : answer.replace(/\s+/g, ' ').split(/(?<=[.!?])\s+/).filter(s => pattern.test(s)).join(' ');
+
+  return {
+    question,
+    mentioned: index >= 0 || pattern.test(answer),
+    position: index >= 0 ? index + 1 : null,
+    competitors: [...new Set(competitors)],
+    excerpt: excerpt ? excerpt.replace(/\*\*/g, '').trim().slice(0, MAX_EXCERPT) : null
+  };
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export function summarizeAnswers(answers: ProbeAnswer[]): ProbeMetrics {
+  const mentions = answers.filter(a => a.mentioned).length;
+  const namesListed = answers.reduce((sum, a) => sum + a.competitors.length + (a.mentioned ? 1 : 0), 0);
+  const positions = answers.map(a => a.position).filter((p): p is number => p !== null);
+
+  const counts = new Map<string, { name: string; mentions: number }>();
+  for (const name of answers.flatMap(a => a.competitors)) {
+    const key = name.toLowerCase();
+    const entry = counts.get(key) || { name, mentions: 0 };
+    entry.mentions++;
+    counts.set(key, entry);
+  }
+
+  return {
+    answered: answers.length,
+    mentions,
+    mentionRate: answers.length > 0 ? round(mentions / answers.length, 3) : 0,
+    shareOfVoice: namesListed > 0 ? round(mentions / namesListed, 3) : 0,
+    averagePosition: positions.length > 0 ? round(positions.reduce((a, b) => a + b, 0) / positions.length, 1) : null,
+    topCompetitors: [...counts.values()].sort((a, b) => b.mentions - a.mentions).slice(0, TOP_COMPETITORS)
+  };
+}
+
+function parseQuestions(raw: string): { category: string | null; questions: string[] } | null {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  try {
+    const data = JSON.parse(raw.slice(start, end + 1));
+    if (!Array.isArray(data.questions)) return null;
+    return {
+      category: typeof data.category === 'string' ? data.category.trim() : null,
+      questions: data.questions.filter((q: unknown) => typeof q === 'string')
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Category questions for a brand, written by the first provider that returns
+ * usable ones, or built from the industry. Questions naming the brand are
+ * dropped. Null when neither works.
+ */
+export async function generateProbeQuestions(
+  brandName: string,
+  context: BrandContext | undefined,
+  providers: AIProvider[],
+  count: number
+): Promise<Pick<ProbeReport, 'category' | 'questionSource' | 'promptVersion' | 'questions'> | null> {
+  const pattern = brandPattern(brandName, context?.aliases);
+  const usable = (questions: string[]) =>
+    [...new Set(questions.map(q => q.trim()).filter(q => q && !pattern.test(q)))].slice(0, count);
+
+  const prompt = renderPrompt('probe-questions', { ...brandVariables(brandName, context), count: String(count) });
+
+  for (const provider of providers.slice(0, QUESTION_WRITERS)) {
+    try {
+      const parsed = parseQuestions(await provider.ask(prompt.text, { subject: brandName }));
+      const questions = parsed ? usable(parsed.questions) : [];
+      if (questions.length > 0) {
+        return { category: parsed.category, questionSource: 'generated', promptVersion: prompt.version, questions };
+      }
+      console.log(`  ⚠️ ${provider.name} wrote no usable probe questions`);
+    } catch (error) {
+      console.error(`  ⚠️ ${provider.name} could not write probe questions:`, error.message);
+    }
+  }
+
+  if (context?.industry) {
+    const where = context.country ? ` in ${context.country}` : '';
+    const questions = usable(INDUSTRY_QUESTIONS.map(q => q(context.industry, where)));
+    return { category: context.industry, questionSource: 'industry', promptVersion: null, questions };
+  }
+
+  return null;
+}
+
+/**
+ * Ask every provider the same category questions and measure how often, and
+ * how high, each one names the brand. Providers answer in parallel, their
+ * questions one at a time. Null when no questions could be built.
+ */
+export async function runAnswerProbe(
+  brandName: string,
+  providers: AIProvider[],
+  context?: BrandContext
+): Promise<ProbeReport | null> {
+  const count = Math.max(1, Math.min(MAX_QUESTIONS, env.PROBE_QUESTIONS));
+  const questionSet = await generateProbeQuestions(brandName, context, providers, count);
+  if (!questionSet) {
+    console.log(`🔎 Answer probe skipped for ${brandName}: no questions (give an industry to use built-in ones)`);
+    return null;
+  }
+
+  console.log(`🔎 Probing ${providers.length} providers with ${questionSet.questions.length} questions (${questionSet.category || 'unknown category'})`);
+  const pattern = brandPattern(brandName, context?.aliases);
+
+  const probes = await Promise.all(providers.map(async (provider): Promise<ProviderProbe> => {
+    const answers: ProbeAnswer[] = [];
+    let failed = 0;
+    for (const question of questionSet.questions) {
+      try {
+        const answer = await provider.ask(question, { subject: brandName });
+        answers.push(analyzeAnswer(question, answer, pattern));
+      } catch (error) {
+        failed++;
+        console.error(`  ⚠️ ${provider.name} probe failed:`, error.message);
+      }
+    }
+    return { name: provider.name, failed, ...summarizeAnswers(answers), answers };
+  }));
+
+  return {
+    ...questionSet,
+    providers: probes,
+    overall: summarizeAnswers(probes.flatMap(p => p.answers)),
+    probedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,61 @@
+import { AMBIGUOUS_BRANDS, BrandCandidate } from '../../config/ambiguous-brands.js';
+import { BrandContext } from './providers/types.js';
+import { normalizeContext, normalizeInput } from './result-cache.js';
+
+const MAX_FIELD_LENGTH = 100;
+const MAX_ALIASES = 10;
+
+// "https://www.Tesla.com/models" → "tesla.com"
+function normalizeDomain(value: string): string | null {
+  const host = value.trim().toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/^www\./, '');
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) && host.length <= 253 ? host : null;
+}
+
+function text(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || value.trim().length > MAX_FIELD_LENGTH) {
+    throw new Error(`${field} must be a string of at most ${MAX_FIELD_LENGTH} characters`);
+  }
+  return value.replace(/\s+/g, ' ').trim() || undefined;
+}
+
+/**
+ * Read the optional `domain`, `industry`, `country` and `aliases` fields of
+ * an analyze request. Throws with a user-facing message on invalid values.
+ */
+export function parseBrandContext(body: any): BrandContext | undefined {
+  const context: BrandContext = {};
+
+  const domain = text(body?.domain, 'domain');
+  if (domain) {
+    context.domain = normalizeDomain(domain);
+    if (!context.domain) throw new Error('domain must be a domain name like example.com');
+  }
+  context.industry = text(body?.industry, 'industry');
+  context.country = text(body?.country, 'country');
+
+  if (body?.aliases !== undefined) {
+    if (!Array.isArray(body.aliases) || body.aliases.length > MAX_ALIASES) {
+      throw new Error(`aliases must be an array of at most ${MAX_ALIASES} names`);
+    }
+    const aliases = body.aliases.map((a: unknown) => text(a, 'aliases')).filter(Boolean);
+    if (aliases.length > 0) context.aliases = aliases;
+  }
+
+  return normalizeContext(context) ? context : undefined;
+}
+
+/**
+ * Candidate entities when `input` is a known ambiguous name and the request
+ * carries no context; null when the analysis can go ahead
+ */
+export function findDisambiguation(input: string, context?: BrandContext): BrandCandidate[] | null {
+  if (normalizeContext(context)) return null;
+
+  const name = normalizeInput(input);
+  const entry = AMBIGUOUS_BRANDS.find(b => b.names.includes(name));
+  return entry ? entry.candidates : null;
+}
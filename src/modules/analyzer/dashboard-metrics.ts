@@ -0,0 +1,268 @@
+import { prisma } from '../../prisma/client.js';
+import { CRITERIA } from './providers/result-schema.js';
+import { CriterionKey } from './providers/types.js';
+import type { Framing } from './framing.js';
+
+export const DASHBOARD_PERIODS = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  'all': null
+} as const;
+
+export type DashboardPeriod = keyof typeof DASHBOARD_PERIODS;
+
+// Longer periods ('all') are measured over the most recent analyses only
+export const DASHBOARD_MAX_ANALYSES = 500;
+
+type StoredAnalysis = {
+  brandName: string;
+  score: number | null;
+  result: any;
+  createdAt: Date;
+};
+
+export type BrandTrend = {
+  brandName: string;
+  analyses: number;
+  firstScore: number;
+  lastScore: number;
+  change: number | null;                  // null with a single analysis in the period
+  changePercent: number | null;
+  providerDeltas: Record<string, number>;
+  sentimentChange: number | null;         // Net sentiment, last - first analysis with framing
+  from: string;
+  to: string;
+};
+
+export type CriterionMovement = {
+  key: CriterionKey;
+  label: string;
+  max: number;
+  change: number;                         // average change of the median, in points
+  changePercent: number;                  // same, as % of the criterion max
+};
+
+// How providers described the user's brands over the period
+export type FramingTrend = {
+  analyses: number;                       // Analyses with framing data
+  mentions: number;
+  netSentiment: number | null;            // Mean of per-analysis net sentiment
+  framing: Record<Framing, number>;
+  providers: Record<string, number>;      // Mean net sentiment per provider
+};
+
+export type DashboardMetrics = {
+  period: DashboardPeriod;
+  improvementRate: string;
+  aiMentions: number;
+  brands: BrandTrend[];
+  providerDeltas: Record<string, number>;
+  criteriaMovement: {
+    best: CriterionMovement | null;         // null when no criterion moved more than another
+    worst: CriterionMovement | null;
+    all: CriterionMovement[];
+  };
+  framing: FramingTrend;
+};
+
+function round1(n: number) { return Math.round(n * 10) / 10; }
+
+function average(values: number[]) {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// last - first of a chronological series, or null if there is nothing to compare
+function delta(series: number[]): number | null {
+  return series.length > 1 ? series[series.length - 1] - series[0] : null;
+}
+
+function averageDeltas(perBrand: Record<string, number>[]): Record<string, number> {
+  const collected: Record<string, number[]> = {};
+  for (const deltas of perBrand) {
+    for (const [name, d] of Object.entries(deltas)) {
+      (collected[name] = collected[name] || []).push(d);
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(collected).map(([name, values]) => [name, round1(average(values))])
+  );
+}
+
+function formatRate(percent: number | null): string {
+  if (percent === null) return '0%';
+  const rounded = Math.round(percent);
+  return rounded > 0 ? `+${rounded}%` : `${rounded}%`;
+}
+
+/**
+ * Score change per provider between its first and last answer for a brand.
+ * Providers added or dropped mid-period use the analyses they took part in.
+ */
+function providerSeries(analyses: StoredAnalysis[]): Record<string, number> {
+  const series: Record<string, number[]> = {};
+  for (const a of analyses) {
+    for (const p of a.result?.providers || []) {
+      (series[p.name] = series[p.name] || []).push(p.score);
+    }
+  }
+
+  const deltas: Record<string, number> = {};
+  for (const [name, scores] of Object.entries(series)) {
+    const d = delta(scores);
+    if (d !== null) deltas[name] = d;
+  }
+  return deltas;
+}
+
+// Change of each criterion's cross-provider median for one brand
+function criterionDeltas(analyses: StoredAnalysis[]): Partial<Record<CriterionKey, number>> {
+  const deltas: Partial<Record<CriterionKey, number>> = {};
+  for (const c of CRITERIA) {
+    const medians = analyses
+      .map(a => a.result?.breakdown?.[c.key]?.median)
+      .filter((m): m is number => typeof m === 'number');
+    const d = delta(medians);
+    if (d !== null) deltas[c.key] = d;
+  }
+  return deltas;
+}
+
+function round2(n: number) { return Math.round(n * 100) / 100; }
+
+/**
+ * Framing counts and net sentiment, overall and per provider, across every
+ * analysis that has `result.framing` (older ones do not)
+ */
+function framingTrend(analyses: StoredAnalysis[]): FramingTrend {
+  const framed = analyses.filter(a => a.result?.framing?.overall);
+  const framing: Record<Framing, number> = { recommended: 0, neutral: 0, warned_against: 0, outdated: 0 };
+  const providers: Record<string, number[]> = {};
+  let mentions = 0;
+
+  for (const a of framed) {
+    const overall = a.result.framing.overall;
+    mentions += overall.mentions;
+    for (const key of Object.keys(framing) as Framing[]) {
+      framing[key] += overall.framing?.[key] || 0;
+    }
+    for (const p of a.result.framing.providers || []) {
+      (providers[p.name] = providers[p.name] || []).push(p.netSentiment);
+    }
+  }
+
+  return {
+    analyses: framed.length,
+    mentions,
+    netSentiment: framed.length > 0 ? round2(average(framed.map(a => a.result.framing.overall.netSentiment))) : null,
+    framing,
+    providers: Object.fromEntries(Object.entries(providers).map(([name, values]) => [name, round2(average(values))]))
+  };
+}
+
+/**
+ * Times AI answers brought up the brand: probe answers that named it when
+ * the analysis was probed, otherwise the mentions framing found in the
+ * provider answers. Analyses with neither count nothing.
+ */
+function countMentions(analyses: StoredAnalysis[]): number {
+  let mentions = 0;
+  for (const a of analyses) {
+    const probed = a.result?.probe?.overall?.mentions;
+    const framed = a.result?.framing?.overall?.mentions;
+    mentions += typeof probed === 'number' ? probed : typeof framed === 'number' ? framed : 0;
+  }
+  return mentions;
+}
+
+/**
+ * Dashboard metrics over successful analyses (chronological), grouped by brand
+ */
+export function computeDashboardMetrics(analyses: StoredAnalysis[], period: DashboardPeriod): DashboardMetrics {
+  const byBrand = new Map<string, StoredAnalysis[]>();
+  for (const a of analyses) {
+    const key = a.brandName.trim().toLowerCase();
+    byBrand.set(key, [...(byBrand.get(key) || []), a]);
+  }
+
+  const brands: BrandTrend[] = [];
+  const brandProviderDeltas: Record<string, number>[] = [];
+  const brandCriterionDeltas: Record<string, number>[] = [];
+
+  for (const runs of byBrand.values()) {
+    const first = runs[0];
+    const last = runs[runs.length - 1];
+    const change = delta(runs.map(r => r.score));
+    const providerDeltas = providerSeries(runs);
+    const sentimentChange = delta(
+      runs.map(r => r.result?.framing?.overall?.netSentiment).filter((n): n is number => typeof n === 'number')
+    );
+
+    brands.push({
+      brandName: last.brandName.trim(),
+      analyses: runs.length,
+      firstScore: first.score,
+      lastScore: last.score,
+      change,
+      changePercent: change !== null && first.score > 0 ? round1((change / first.score) * 100) : null,
+      providerDeltas,
+      sentimentChange: sentimentChange !== null ? round2(sentimentChange) : null,
+      from: first.createdAt.toISOString(),
+      to: last.createdAt.toISOString()
+    });
+    brandProviderDeltas.push(providerDeltas);
+    brandCriterionDeltas.push(criterionDeltas(runs));
+  }
+
+  // Biggest movers first
+  brands.sort((a, b) => Math.abs(b.change ?? 0) - Math.abs(a.change ?? 0));
+
+  const criterionAverages = averageDeltas(brandCriterionDeltas);
+  const movements: CriterionMovement[] = CRITERIA
+    .filter(c => c.key in criterionAverages)
+    .map(c => ({
+      key: c.key,
+      label: c.label,
+      max: c.max,
+      change: criterionAverages[c.key],
+      changePercent: round1((criterionAverages[c.key] / c.max) * 100)
+    }))
+    .sort((a, b) => b.changePercent - a.changePercent);
+
+  const brandRates = brands.map(b => b.changePercent).filter((p): p is number => p !== null);
+  // All criteria moved alike: none is best or worst
+  const spread = movements.length > 1 && movements[0].changePercent !== movements[movements.length - 1].changePercent;
+
+  return {
+    period,
+    improvementRate: formatRate(brandRates.length > 0 ? average(brandRates) : null),
+    aiMentions: countMentions(analyses),
+    brands,
+    providerDeltas: averageDeltas(brandProviderDeltas),
+    criteriaMovement: {
+      best: spread ? movements[0] : null,
+      worst: spread ? movements[movements.length - 1] : null,
+      all: movements
+    },
+    framing: framingTrend(analyses)
+  };
+}
+
+export async function getDashboardMetrics(userId: string, period: DashboardPeriod = '30d'): Promise<DashboardMetrics> {
+  const days = DASHBOARD_PERIODS[period];
+  const since = days === null ? undefined : new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const analyses = await prisma.analysis.findMany({
+    where: {
+      userId,
+      comparisonId: null,       // Competitors of a comparison are not the user's brands
+      score: { not: null },
+      ...(since && { createdAt: { gte: since } })
+    },
+    select: { brandName: true, score: true, result: true, createdAt: true },
+    orderBy: { createdAt: 'desc' },
+    take: DASHBOARD_MAX_ANALYSES
+  });
+
+  return computeDashboardMetrics(analyses.reverse(), period);
+}
@@ -0,0 +1,131 @@
+import { redis } from '../../shared/redis.js';
+import { acquireLock, releaseLock } from '../../shared/lock.js';
+import { sha256 } from '../../shared/hash.js';
+import { env } from '../../config/env.js';
+import { normalizeContext, normalizeInput } from './result-cache.js';
+import type { BrandContext } from './providers/types.js';
+
+// Dedup is an optimisation: without Redis, start the job anyway
+const DEDUP_TIMEOUT_MS = 1000;
+
+/**
+ * Thrown when an Idempotency-Key is reused for a different brand, context or options
+ */
+export class IdempotencyConflictError extends Error {
+  constructor() {
+    super('Idempotency-Key was already used for a different input');
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+export type AnalysisClaim = {
+  jobId: string;
+  duplicate: boolean;               // jobId belongs to an earlier request
+  release: () => Promise<void>;     // Call once the job has finished
+  abandon: () => Promise<void>;     // Call when the job could not be started: forget it entirely
+};
+
+// Request options that change what the job produces
+export type AnalysisOptions = {
+  probe?: boolean;
+  forceRefresh?: boolean;
+};
+
+type IdempotencyRecord = { jobId: string; input: string };
+
+const noop = async () => {};
+
+async function claim(
+  scope: string,
+  input: string,
+  context: BrandContext | undefined,
+  options: AnalysisOptions,
+  jobId: string,
+  idempotencyKey?: string
+): Promise<AnalysisClaim> {
+  // "Delta" the airline and "Delta" the faucet maker are different analyses,
+  // and so are a probed or force-refreshed run and a plain one
+  const brand = JSON.stringify([
+    normalizeInput(input),
+    normalizeContext(context),
+    options.probe === true,
+    options.forceRefresh === true
+  ]);
+
+  // 1. Same Idempotency-Key → the job it started, running or finished
+  let idemKey: string | undefined;
+  let idemValue: string | undefined;
+  if (idempotencyKey) {
+    idemKey = `idempotency:${scope}:${sha256(idempotencyKey)}`;
+    const record: IdempotencyRecord = { jobId, input: brand };
+    idemValue = JSON.stringify(record);
+    if (!(await acquireLock(redis, idemKey, env.IDEMPOTENCY_TTL_MS, idemValue))) {
+      const existing = JSON.parse((await redis.get(idemKey)) || 'null') as IdempotencyRecord | null;
+      if (existing) {
+        if (existing.input !== brand) throw new IdempotencyConflictError();
+        return { jobId: existing.jobId, duplicate: true, release: noop, abandon: noop };
+      }
+    }
+  }
+
+  // 2. Same user + brand (and context) while a job is running → that job
+  const inflightKey = `inflight:${scope}:${sha256(brand)}`;
+  if (!(await acquireLock(redis, inflightKey, env.INFLIGHT_TTL_MS, jobId))) {
+    const running = await redis.get(inflightKey);
+    if (running) {
+      if (idemKey) {
+        const record: IdempotencyRecord = { jobId: running, input: brand };
+        await redis.set(idemKey, JSON.stringify(record), 'PX', env.IDEMPOTENCY_TTL_MS);
+      }
+      return { jobId: running, duplicate: true, release: noop, abandon: noop };
+    }
+  }
+
+  const release = () => releaseLock(redis, inflightKey, jobId);
+  return {
+    jobId,
+    duplicate: false,
+    release,
+    // A retry with the same key must start over, not join a job that doesn't exist
+    abandon: async () => {
+      await release();
+      if (idemKey) await releaseLock(redis, idemKey, idemValue);
+    }
+  };
+}
+
+/**
+ * Decide whether an analyze request starts `jobId` or joins an existing job.
+ * `scope` identifies the caller (user id, or IP for anonymous requests).
+ */
+export async function claimAnalysis(
+  scope: string,
+  input: string,
+  context: BrandContext | undefined,
+  options: AnalysisOptions,
+  jobId: string,
+  idempotencyKey?: string
+): Promise<AnalysisClaim> {
+  const pending = claim(scope, input, context, options, jobId, idempotencyKey);
+  let timer: NodeJS.Timeout;
+  try {
+    return await Promise.race([
+      pending,
+      new Promise<AnalysisClaim>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('dedup timeout')), DEDUP_TIMEOUT_MS);
+      })
+    ]);
+  } catch (err) {
+    if (err instanceof IdempotencyConflictError) throw err;
+    console.error('⚠️ Request dedup unavailable, starting a new job:', err.message);
+    // A claim that settles late may still take the locks for jobId: hand them
+    // back once it does, instead of leaving them to expire
+    const late = (action: 'release' | 'abandon') => () => pending.then(
+      c => (c.duplicate ? undefined : c[action]()),
+      () => undefined
+    );
+    return { jobId, duplicate: false, release: late('release'), abandon: late('abandon') };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,28 @@
+import { FastifyInstance } from 'fastify';
+import { verifyAdmin } from '../../middleware/auth.js';
+import { PROMPT_EXPERIMENTS } from '../../config/experiments.js';
+import { listPrompts } from './providers/prompts.js';
+import { getExperimentReport } from './experiments.js';
+
+// Internal endpoints for the prompt registry and A/B experiments
+export default async function experimentRoutes(fastify: FastifyInstance) {
+  fastify.get('/api/admin/prompts', { preHandler: verifyAdmin }, async () => {
+    return { prompts: listPrompts() };
+  });
+
+  fastify.get('/api/admin/experiments', { preHandler: verifyAdmin }, async () => {
+    return { experiments: PROMPT_EXPERIMENTS };
+  });
+
+  fastify.get('/api/admin/experiments/:id/report', { preHandler: verifyAdmin }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    const report = await getExperimentReport(id);
+    if (!report) {
+      reply.code(404);
+      return { message: 'Experiment not found' };
+    }
+
+    return report;
+  });
+}
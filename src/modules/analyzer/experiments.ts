@@ -0,0 +1,218 @@
+import { prisma } from '../../prisma/client.js';
+import { sha256 } from '../../shared/hash.js';
+import { PROMPT_EXPERIMENTS, PromptExperiment } from '../../config/experiments.js';
+import { PromptId, getPromptTemplate } from './providers/prompts.js';
+
+export type ExperimentArm = 'control' | 'variant';
+
+// Stored on every analysis that took part in an experiment
+export type ExperimentAssignment = {
+  id: string;
+  promptId: PromptId;
+  arm: ExperimentArm;
+  version: string;
+};
+
+export type ScoreStats = {
+  n: number;
+  mean: number | null;
+  median: number | null;
+  stdDev: number | null;
+  min: number | null;
+  max: number | null;
+  p10: number | null;
+  p90: number | null;
+  histogram: number[];    // counts per 10-point band: 0-9, 10-19, ..., 90-100
+};
+
+export type ExperimentReport = {
+  experiment: PromptExperiment;
+  analyses: Record<ExperimentArm, number>;
+  // Scores of the providers that actually used the experiment's prompt
+  scores: Record<ExperimentArm, ScoreStats>;
+  difference: {
+    mean: number | null;          // variant - control
+    median: number | null;
+    effectSize: number | null;    // Cohen's d
+    welchT: number | null;
+    ks: number | null;            // Kolmogorov-Smirnov distance between the two distributions
+  };
+  providers: Record<string, Record<ExperimentArm, ScoreStats> & { meanDifference: number | null }>;
+};
+
+// Fail at startup on an unknown version or two experiments on the same prompt
+function validateExperiments(experiments: PromptExperiment[]) {
+  const active = new Set<PromptId>();
+  for (const e of experiments) {
+    getPromptTemplate(e.promptId, e.control);
+    getPromptTemplate(e.promptId, e.variant);
+    if (e.variantShare < 0 || e.variantShare > 1) {
+      throw new Error(`Experiment ${e.id}: variantShare must be between 0 and 1`);
+    }
+    if (e.active && active.has(e.promptId)) {
+      throw new Error(`Experiment ${e.id}: another active experiment already uses ${e.promptId}`);
+    }
+    if (e.active) active.add(e.promptId);
+  }
+}
+
+validateExperiments(PROMPT_EXPERIMENTS);
+
+export function getExperiment(id: string): PromptExperiment | undefined {
+  return PROMPT_EXPERIMENTS.find(e => e.id === id);
+}
+
+// Stable position in [0, 1) for a key, independent per experiment
+function bucket(experimentId: string, key: string): number {
+  return parseInt(sha256(`${experimentId}:${key}`).slice(0, 8), 16) / 0x100000000;
+}
+
+/**
+ * Arms for every active experiment. The same key always lands in the same arm.
+ */
+export function assignExperiments(key: string): {
+  assignments: ExperimentAssignment[];
+  promptVersions: Partial<Record<PromptId, string>>;
+} {
+  const assignments = PROMPT_EXPERIMENTS
+    .filter(e => e.active)
+    .map(e => {
+      const arm: ExperimentArm = bucket(e.id, key) < e.variantShare ? 'variant' : 'control';
+      return { id: e.id, promptId: e.promptId, arm, version: e[arm] };
+    });
+
+  return {
+    assignments,
+    promptVersions: Object.fromEntries(assignments.map(a => [a.promptId, a.version]))
+  };
+}
+
+function round1(n: number) { return Math.round(n * 10) / 10; }
+
+function percentile(sorted: number[], p: number): number {
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+function moments(values: number[]) {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return { n: values.length, mean, variance };
+}
+
+export function scoreStats(values: number[]): ScoreStats {
+  const histogram = new Array(10).fill(0);
+  for (const v of values) histogram[Math.min(9, Math.floor(v / 10))]++;
+
+  if (values.length === 0) {
+    return { n: 0, mean: null, median: null, stdDev: null, min: null, max: null, p10: null, p90: null, histogram };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const { mean, variance } = moments(values);
+
+  return {
+    n: values.length,
+    mean: round1(mean),
+    median: round1(percentile(sorted, 0.5)),
+    stdDev: round1(Math.sqrt(variance)),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p10: round1(percentile(sorted, 0.1)),
+    p90: round1(percentile(sorted, 0.9)),
+    histogram
+  };
+}
+
+// Largest gap between the two empirical CDFs (0 = identical, 1 = disjoint)
+function ksDistance(a: number[], b: number[]): number {
+  const points = [...new Set([...a, ...b])].sort((x, y) => x - y);
+  let max = 0;
+  for (const x of points) {
+    const cdfA = a.filter(v => v <= x).length / a.length;
+    const cdfB = b.filter(v => v <= x).length / b.length;
+    max = Math.max(max, Math.abs(cdfA - cdfB));
+  }
+  return Math.round(max * 1000) / 1000;
+}
+
+function compare(control: number[], variant: number[]): ExperimentReport['difference'] {
+  if (control.length === 0 || variant.length === 0) {
+    return { mean: null, median: null, effectSize: null, welchT: null, ks: null };
+  }
+
+  const c = moments(control);
+  const v = moments(variant);
+  const pooled = Math.sqrt((c.variance + v.variance) / 2);
+  const standardError = Math.sqrt(c.variance / c.n + v.variance / v.n);
+
+  return {
+    mean: round1(v.mean - c.mean),
+    median: round1(scoreStats(variant).median - scoreStats(control).median),
+    effectSize: pooled > 0 ? Math.round(((v.mean - c.mean) / pooled) * 100) / 100 : null,
+    welchT: standardError > 0 ? Math.round(((v.mean - c.mean) / standardError) * 100) / 100 : null,
+    ks: ksDistance(control, variant)
+  };
+}
+
+/**
+ * Score distributions per arm from stored analysis results. Only provider
+ * scores produced with the arm's prompt version count.
+ */
+export function buildExperimentReport(experiment: PromptExperiment, results: any[]): ExperimentReport {
+  const analyses: Record<ExperimentArm, number> = { control: 0, variant: 0 };
+  const scores: Record<ExperimentArm, number[]> = { control: [], variant: [] };
+  const byProvider: Record<string, Record<ExperimentArm, number[]>> = {};
+
+  for (const result of results) {
+    const assignment = (result?.experiments || []).find((a: ExperimentAssignment) => a.id === experiment.id);
+    if (!assignment) continue;
+    analyses[assignment.arm]++;
+
+    for (const p of result.providers || []) {
+      if (p.prompts?.[experiment.promptId] !== assignment.version) continue;
+      scores[assignment.arm].push(p.score);
+      byProvider[p.name] = byProvider[p.name] || { control: [], variant: [] };
+      byProvider[p.name][assignment.arm].push(p.score);
+    }
+  }
+
+  const providers: ExperimentReport['providers'] = {};
+  for (const [name, arms] of Object.entries(byProvider)) {
+    providers[name] = {
+      control: scoreStats(arms.control),
+      variant: scoreStats(arms.variant),
+      meanDifference: compare(arms.control, arms.variant).mean
+    };
+  }
+
+  return {
+    experiment,
+    analyses,
+    scores: {
+      control: scoreStats(scores.control),
+      variant: scoreStats(scores.variant)
+    },
+    difference: compare(scores.control, scores.variant),
+    providers
+  };
+}
+
+export async function getExperimentReport(id: string): Promise<ExperimentReport | null> {
+  const experiment = getExperiment(id);
+  if (!experiment) return null;
+
+  const records = await prisma.analysis.findMany({
+    where: {
+      score: { not: null },
+      result: { path: ['experiments'], array_contains: [{ id }] }
+    },
+    select: { result: true }
+  });
+
+  return buildExperimentReport(experiment, records.map(r => r.result));
+}
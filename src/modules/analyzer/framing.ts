@@ -0,0 +1,231 @@
+import { CRITERIA } from './providers/result-schema.js';
+import { CriterionKey, ProviderName, ProviderResult } from './providers/types.js';
+import type { ProbeReport } from './answer-probe.js';
+
+// How providers describe a brand, not just how they score it. Deterministic
+// (word lists, no extra model call) so the same answer always gets the same tags.
+
+export type Sentiment = 'positive' | 'neutral' | 'negative';
+export type Framing = 'recommended' | 'neutral' | 'warned_against' | 'outdated';
+
+export type BrandMention = {
+  source: 'summary' | 'criterion' | 'issue' | 'probe';
+  criterion?: CriterionKey;
+  text: string;
+  sentiment: Sentiment;
+  framing: Framing;
+  claims: string[];
+};
+
+export type FramingSummary = {
+  mentions: number;
+  sentiment: Record<Sentiment, number>;
+  framing: Record<Framing, number>;
+  netSentiment: number;               // (positive - negative) / mentions, -1..1
+  dominantFraming: Framing | null;    // Most frequent non-neutral framing
+  claims: string[];                   // Most telling claims, non-neutral first
+};
+
+export type ProviderFraming = FramingSummary & {
+  name: ProviderName;
+  details: BrandMention[];
+};
+
+export type FramingReport = {
+  providers: ProviderFraming[];
+  overall: FramingSummary;
+};
+
+const MAX_TEXT = 300;
+const MAX_CLAIM = 200;
+const TOP_CLAIMS = 5;
+
+// Checked in this order: a warning outweighs praise in the same passage
+const FRAMING_PATTERNS: [Framing, RegExp][] = [
+  ['warned_against', /\b(avoid|beware|cautio(?:n|us)|not recommended|(?:do not|don't|wouldn't|would not) recommend|complaints?|lawsuits?|scandals?|controvers(?:y|ial)|recalls?|scams?|unreliable|(?:poor|negative|bad) reviews?|data breach(?:es)?|warn(?:s|ed|ing)?)\b/i],
+  ['outdated', /\b(outdated|legacy|no longer|used to be|once (?:a|the|popular|dominant|leading)|declin(?:e|ed|es|ing)|discontinued|defunct|obsolete|old-fashioned|fallen behind|lost (?:ground|relevance|market share)|past its (?:peak|prime))\b/i],
+  ['recommended', /\b(recommend(?:s|ed)?|top (?:choice|pick)|go-to|best[- ]known|best|leading|leader|trusted|popular choice|worth (?:it|considering|the money)|stands? out|excellent|highly rated|well[- ]regarded)\b/i]
+];
+
+const POSITIVE = new Set([
+  'strong', 'leading', 'leader', 'trusted', 'popular', 'reliable', 'innovative', 'well-known', 'recognized',
+  'respected', 'dominant', 'excellent', 'loved', 'widely', 'recommended', 'best', 'premium', 'authoritative',
+  'extensive', 'rich', 'regularly', 'frequently', 'prominent', 'established', 'iconic', 'influential', 'quality'
+]);
+
+const NEGATIVE = new Set([
+  'weak', 'limited', 'poor', 'lacks', 'lacking', 'missing', 'minimal', 'unknown', 'obscure', 'rare', 'rarely',
+  'never', 'complaints', 'controversy', 'controversial', 'lawsuit', 'lawsuits', 'scandal', 'criticized',
+  'criticism', 'issues', 'problems', 'risk', 'avoid', 'unreliable', 'declining', 'outdated', 'negative', 'low',
+  'absent', 'inactive', 'dead', 'sparse', 'few', 'obsolete', 'defunct', 'expensive'
+]);
+
+const NEGATIONS = new Set(['not', 'no', "n't", 'never', 'hardly', 'without']);
+
+export function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"'(])/)
+    .map(s => s.trim())
+    .filter(s => s.split(' ').length >= 3);
+}
+
+// Positive minus negative words; a negation up to two words before flips one
+function sentimentScore(sentence: string): number {
+  const words = sentence.toLowerCase().replace(/n't\b/g, " n't").match(/[a-z'-]+/g) || [];
+  let score = 0;
+  words.forEach((word, i) => {
+    const polarity = POSITIVE.has(word) ? 1 : NEGATIVE.has(word) ? -1 : 0;
+    if (polarity === 0) return;
+    const negated = words.slice(Math.max(0, i - 2), i).some(w => NEGATIONS.has(w));
+    score += negated ? -polarity : polarity;
+  });
+  return score;
+}
+
+function framingOf(sentence: string): Framing {
+  return FRAMING_PATTERNS.find(([, pattern]) => pattern.test(sentence))?.[0] ?? 'neutral';
+}
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+/**
+ * Tag one passage about the brand. The passage takes the strongest framing
+ * of its sentences (warned against > outdated > recommended > neutral).
+ */
+export function tagMention(
+  text: string,
+  source: BrandMention['source'],
+  criterion?: CriterionKey
+): BrandMention | null {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return null;
+
+  const sentences = splitSentences(clean);
+  const claims = (sentences.length > 0 ? sentences : [clean]).map(s => truncate(s, MAX_CLAIM));
+  const score = claims.reduce((sum, s) => sum + sentimentScore(s), 0);
+  const framings = claims.map(framingOf);
+
+  return {
+    source,
+    ...(criterion && { criterion }),
+    text: truncate(clean, MAX_TEXT),
+    sentiment: score > 0 ? 'positive' : score < 0 ? 'negative' : 'neutral',
+    framing: FRAMING_PATTERNS.map(([f]) => f).find(f => framings.includes(f)) ?? 'neutral',
+    claims
+  };
+}
+
+// Some models still wrap JSON mode output in markdown fences
+function parseRaw(raw: unknown): any {
+  if (typeof raw !== 'string') return null;
+  try {
+    return JSON.parse(raw.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mentions in a provider's raw answer (`meta.raw`, plus the pass 1
+ * `meta.analysis` when there was a verification pass): the summary, every
+ * criterion reason and every critical issue. Opportunities are advice to the
+ * brand, not descriptions of it, and are skipped.
+ */
+export function extractRubricMentions(
+  result: ProviderResult,
+  fields: ('raw' | 'analysis')[] = ['raw', 'analysis']
+): BrandMention[] {
+  const mentions: BrandMention[] = [];
+  const seen = new Set<string>();
+  const add = (mention: BrandMention | null) => {
+    if (mention && !seen.has(mention.text.toLowerCase())) {
+      seen.add(mention.text.toLowerCase());
+      mentions.push(mention);
+    }
+  };
+
+  for (const raw of fields.map(field => result.meta?.[field])) {
+    const data = parseRaw(raw);
+    if (!data) continue;
+    if (typeof data.summary === 'string') add(tagMention(data.summary, 'summary'));
+    for (const c of CRITERIA) {
+      const reason = data.breakdown?.[c.field]?.reason;
+      if (typeof reason === 'string') add(tagMention(reason, 'criterion', c.key));
+    }
+    for (const issue of Array.isArray(data.critical_issues) ? data.critical_issues : []) {
+      if (typeof issue === 'string') add(tagMention(issue, 'issue'));
+    }
+  }
+
+  return mentions;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function summarizeMentions(mentions: BrandMention[]): FramingSummary {
+  const sentiment: Record<Sentiment, number> = { positive: 0, neutral: 0, negative: 0 };
+  const framing: Record<Framing, number> = { recommended: 0, neutral: 0, warned_against: 0, outdated: 0 };
+  for (const m of mentions) {
+    sentiment[m.sentiment]++;
+    framing[m.framing]++;
+  }
+
+  const dominant = (Object.entries(framing) as [Framing, number][])
+    .filter(([f, count]) => f !== 'neutral' && count > 0)
+    .sort((a, b) => b[1] - a[1])[0];
+
+  const claims = [...mentions]
+    .sort((a, b) => Number(a.framing === 'neutral') - Number(b.framing === 'neutral'))
+    .flatMap(m => m.claims);
+
+  return {
+    mentions: mentions.length,
+    sentiment,
+    framing,
+    netSentiment: mentions.length > 0 ? round2((sentiment.positive - sentiment.negative) / mentions.length) : 0,
+    dominantFraming: dominant ? dominant[0] : null,
+    claims: [...new Set(claims)].slice(0, TOP_CLAIMS)
+  };
+}
+
+/**
+ * Sentiment and framing of every brand mention, per provider and overall:
+ * the rubric answers and, when the analysis was probed, the passages of
+ * probe answers that name the brand
+ */
+export function extractFraming(results: ProviderResult[], probe?: ProbeReport | null): FramingReport {
+  const providers = results.map(result => {
+    const probed = probe?.providers.find(p => p.name === result.name);
+    const details = [
+      ...extractRubricMentions(result),
+      ...(probed?.answers || [])
+        .map(a => (a.excerpt ? tagMention(a.excerpt, 'probe') : null))
+        .filter((m): m is BrandMention => !!m)
+    ];
+    return { name: result.name, ...summarizeMentions(details), details };
+  });
+
+  return {
+    providers,
+    overall: summarizeMentions(providers.flatMap(p => p.details))
+  };
+}
+
+export type FramingEvidence = Pick<FramingSummary, 'mentions' | 'netSentiment' | 'framing'> & {
+  examples: { provider: ProviderName; text: string; sentiment: Sentiment; framing: Framing }[];
+};
+
+/**
+ * What backs the Context Quality score: overall framing counts plus a few
+ * quoted mentions, non-neutral ones first
+ */
+export function contextQualityEvidence(report: FramingReport, examples = 3): FramingEvidence {
+  const quoted = report.providers
+    .flatMap(p => p.details.map(m => ({ provider: p.name, text: m.text, sentiment: m.sentiment, framing: m.framing })))
+    .sort((a, b) => Number(a.framing === 'neutral') - Number(b.framing === 'neutral'))
+    .slice(0, examples);
+
+  const { mentions, netSentiment, framing } = report.overall;
+  return { mentions, netSentiment, framing, examples: quoted };
+}
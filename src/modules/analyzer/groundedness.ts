@@ -0,0 +1,175 @@
+import { CriterionKey, ProviderName, ProviderResult } from './providers/types.js';
+import { gEvalService } from '../../services/g-eval.service.js';
+import { BrandMention, extractRubricMentions } from './framing.js';
+import { env } from '../../config/env.js';
+
+// Evidence handed to the judge is capped; G-Eval sends it once per claim
+const MAX_EVIDENCE_CHARS = 6000;
+// Judge calls in flight at once
+const JUDGE_CONCURRENCY = 4;
+
+export type JudgedClaim = {
+  claim: string;
+  source: BrandMention['source'];
+  criterion?: CriterionKey;
+  groundedness: number;       // 0..1 from the G-Eval judge
+  isGrounded: boolean;
+  reasoning: string;
+};
+
+export type ProviderGroundedness = {
+  name: ProviderName;
+  claims: number;
+  grounded: number;
+  groundedness: number;       // Mean claim groundedness, 0..1
+  hallucinationRate: number;  // Share of claims not grounded in the evidence
+  flagged: boolean;           // hallucinationRate above GEVAL_FLAG_RATE
+  weight: number;             // Weight of this provider's score in the average
+  details: JudgedClaim[];
+  error?: string;             // Set when the judge failed; the provider keeps weight 1
+};
+
+export type GroundednessReport = {
+  evidence: { sources: string[]; chars: number };
+  claims: number;
+  hallucinationRate: number;
+  flagged: ProviderName[];
+  providers: ProviderGroundedness[];
+  judgedAt: string;
+};
+
+export type Evidence = {
+  source: string;
+  text: string;
+};
+
+type Claim = Omit<JudgedClaim, 'groundedness' | 'isGrounded' | 'reasoning'>;
+
+/**
+ * Split a sentence into statements that can be checked on their own:
+ * "Strong brand; weak schema markup" is two claims
+ */
+export function atomicStatements(sentence: string): string[] {
+  return sentence
+    .split(/;\s+|\s+(?:but|while|whereas|although)\s+|,\s+and\s+/i)
+    .map(s => s.trim().replace(/[.,;:]+$/, ''))
+    .filter(s => s.split(/\s+/).length >= 3);
+}
+
+/**
+ * Atomic claims from a provider's final answer (`meta.raw`), in answer order,
+ * at most GEVAL_MAX_CLAIMS of those `keep` accepts
+ */
+export function extractClaims(result: ProviderResult, keep: (claim: Claim) => boolean = () => true): Claim[] {
+  const seen = new Set<string>();
+  const claims: Claim[] = [];
+
+  for (const mention of extractRubricMentions(result, ['raw'])) {
+    for (const claim of mention.claims.flatMap(atomicStatements)) {
+      if (seen.has(claim.toLowerCase())) continue;
+      seen.add(claim.toLowerCase());
+      const extracted: Claim = { claim, source: mention.source, ...(mention.criterion && { criterion: mention.criterion }) };
+      if (keep(extracted)) claims.push(extracted);
+    }
+  }
+
+  return claims.slice(0, env.GEVAL_MAX_CLAIMS);
+}
+
+// The evidence as the judge sees it: each source under its label, capped
+function renderEvidence(evidence: Evidence[]): string {
+  return evidence
+    .map(e => `[${e.source}]\n${e.text.trim()}`)
+    .join('\n\n')
+    .slice(0, MAX_EVIDENCE_CHARS);
+}
+
+async function judgeClaims(claims: Claim[], context: string) {
+  const judged = [];
+  for (let i = 0; i < claims.length; i += JUDGE_CONCURRENCY) {
+    const batch = claims.slice(i, i + JUDGE_CONCURRENCY);
+    judged.push(...await gEvalService.evaluateBatch(batch.map(c => ({ claim: c.claim, context }))));
+  }
+  return judged;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Judge every provider's claims against the evidence (uploaded brand
+ * documents) with G-Eval. Claims about `replaced` criteria are skipped: their
+ * provider scores were overwritten (Structured Data by the site audit), so
+ * they cannot cost the provider weight. Providers are judged one after
+ * another, JUDGE_CONCURRENCY claims at a time. Providers whose claims are
+ * mostly ungrounded are flagged and get GEVAL_FLAGGED_WEIGHT in the score
+ * average.
+ */
+export async function judgeGroundedness(
+  results: ProviderResult[],
+  evidence: Evidence[],
+  replaced: CriterionKey[] = []
+): Promise<GroundednessReport> {
+  const context = renderEvidence(evidence);
+
+  const providers: ProviderGroundedness[] = [];
+  for (const result of results) {
+    const claims = extractClaims(result, claim => !claim.criterion || !replaced.includes(claim.criterion));
+    const base = { name: result.name, claims: claims.length, flagged: false, weight: 1 };
+
+    if (claims.length === 0) {
+      providers.push({ ...base, grounded: 0, groundedness: 0, hallucinationRate: 0, details: [] });
+      continue;
+    }
+
+    try {
+      const judged = await judgeClaims(claims, context);
+      const details = claims.map((c, i) => ({
+        ...c,
+        groundedness: round2(Math.max(0, Math.min(1, Number(judged[i].groundedness) || 0))),
+        isGrounded: !!judged[i].isGrounded,
+        reasoning: judged[i].reasoning
+      }));
+      const grounded = details.filter(d => d.isGrounded).length;
+      const hallucinationRate = round2(1 - grounded / details.length);
+      const flagged = hallucinationRate > env.GEVAL_FLAG_RATE;
+
+      providers.push({
+        ...base,
+        grounded,
+        groundedness: round2(gEvalService.calculateAverageGroundedness(details)),
+        hallucinationRate,
+        flagged,
+        weight: flagged ? env.GEVAL_FLAGGED_WEIGHT : 1,
+        details
+      });
+    } catch (error) {
+      console.error(`  ⚠️ Groundedness check failed for ${result.name}:`, error.message);
+      providers.push({ ...base, grounded: 0, groundedness: 0, hallucinationRate: 0, details: [], error: error.message });
+    }
+  }
+
+  const judged = providers.filter(p => !p.error).flatMap(p => p.details);
+  const ungrounded = judged.filter(d => !d.isGrounded).length;
+
+  return {
+    evidence: { sources: evidence.map(e => e.source), chars: context.length },
+    claims: judged.length,
+    hallucinationRate: judged.length > 0 ? round2(ungrounded / judged.length) : 0,
+    flagged: providers.filter(p => p.flagged).map(p => p.name),
+    providers,
+    judgedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Score average with each provider weighted by its groundedness weight;
+ * falls back to the plain mean if every weight is zero
+ */
+export function weightedScore(results: ProviderResult[], report?: GroundednessReport | null): number {
+  const weightOf = (r: ProviderResult) => report?.providers.find(p => p.name === r.name)?.weight ?? 1;
+  const total = results.reduce((sum, r) => sum + weightOf(r), 0);
+  if (total <= 0) {
+    return Math.round(results.reduce((sum, r) => sum + r.score, 0) / results.length);
+  }
+  return Math.round(results.reduce((sum, r) => sum + r.score * weightOf(r), 0) / total);
+}
@@ -0,0 +1,142 @@
+import type { Redis } from 'ioredis';
+import { redis } from '../../shared/redis.js';
+import { ProviderName } from './providers/types.js';
+
+// Job progress events live in a Redis Stream per job, so any instance can
+// serve a subscriber and clients can resume from the last event id they saw
+
+const STREAM_MAXLEN = 200;
+const STREAM_TTL_SEC = 60 * 60;
+
+export type JobEventType =
+  | 'provider_started'
+  | 'provider_succeeded'
+  | 'provider_failed'
+  | 'provider_short_circuited'
+  | 'aggregation_completed'
+  | 'job_failed';
+
+// Running scores at the moment an event was emitted
+export type PartialScores = {
+  total: number;                                  // providers in this job
+  finished: number;                               // succeeded + failed + skipped
+  scores: Partial<Record<ProviderName, number>>;  // successful providers so far
+  score: number | null;                           // running average
+};
+
+export type JobEvent = {
+  type: JobEventType;
+  jobId: string;
+  provider?: ProviderName;
+  error?: string;
+  partial: PartialScores;
+  timestamp: string;
+};
+
+export const TERMINAL_EVENTS: JobEventType[] = ['aggregation_completed', 'job_failed'];
+
+function streamKey(jobId: string) { return `job:${jobId}:events`; }
+
+/**
+ * Append an event to the job stream. Fire-and-forget: progress reporting must
+ * never hold up the analysis (commands on one connection still stay ordered).
+ */
+export function publishJobEvent(event: Omit<JobEvent, 'timestamp'>) {
+  const key = streamKey(event.jobId);
+  const payload = JSON.stringify({ ...event, timestamp: new Date().toISOString() });
+
+  redis.multi()
+    .xadd(key, 'MAXLEN', '~', STREAM_MAXLEN, '*', 'event', payload)
+    .expire(key, STREAM_TTL_SEC)
+    .exec()
+    .catch(err => console.error(`⚠️ Failed to publish ${event.type} for job ${event.jobId}:`, err.message));
+}
+
+/**
+ * Read events after `lastId` ('0' = from the start), blocking up to `blockMs`
+ * (without it, returns at once). Blocking reads need their own connection -
+ * see createEventReader.
+ */
+export async function readJobEvents(
+  reader: Redis,
+  jobId: string,
+  lastId: string,
+  blockMs?: number
+): Promise<{ id: string; event: JobEvent }[]> {
+  const res = blockMs
+    ? await reader.xread('BLOCK', blockMs, 'STREAMS', streamKey(jobId), lastId)
+    : await reader.xread('STREAMS', streamKey(jobId), lastId);
+  if (!res) return [];
+
+  const [, entries] = res[0];
+  return entries.map(([id, fields]) => ({
+    id,
+    event: JSON.parse(fields[fields.indexOf('event') + 1]) as JobEvent
+  }));
+}
+
+export async function jobStreamExists(jobId: string): Promise<boolean> {
+  return (await redis.exists(streamKey(jobId))) === 1;
+}
+
+export function createEventReader(): Redis {
+  return redis.duplicate();
+}
+
+/**
+ * Tracks running scores for one job and publishes progress events
+ */
+export class JobProgress {
+  private scores: Partial<Record<ProviderName, number>> = {};
+  private finished = 0;
+
+  constructor(private jobId: string, private total: number) {}
+
+  private partial(): PartialScores {
+    const values = Object.values(this.scores);
+    return {
+      total: this.total,
+      finished: this.finished,
+      scores: { ...this.scores },
+      score: values.length > 0
+        ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)
+        : null
+    };
+  }
+
+  private emit(type: JobEventType, extra: Partial<JobEvent> = {}) {
+    publishJobEvent({ type, jobId: this.jobId, partial: this.partial(), ...extra });
+  }
+
+  started(provider: ProviderName) {
+    this.emit('provider_started', { provider });
+  }
+
+  succeeded(provider: ProviderName, score: number) {
+    this.scores[provider] = score;
+    this.finished++;
+    this.emit('provider_succeeded', { provider });
+  }
+
+  failed(provider: ProviderName, error: string) {
+    this.finished++;
+    this.emit('provider_failed', { provider, error });
+  }
+
+  shortCircuited(provider: ProviderName) {
+    this.finished++;
+    this.emit('provider_short_circuited', { provider });
+  }
+
+  completed(score: number) {
+    publishJobEvent({
+      type: 'aggregation_completed',
+      jobId: this.jobId,
+      partial: { ...this.partial(), score }
+    });
+  }
+
+  jobFailed(error: string) {
+    this.emit('job_failed', { error });
+  }
+}
@@ -0,0 +1,309 @@
+import { RagScope, contextService } from '../../services/context.service.js';
+import { AIProvider, BrandContext, CriterionKey, ProviderResult } from './providers/types.js';
+import { ProviderParseError } from './providers/result-schema.js';
+import { CircuitOpenError } from '../../resilience/provider.js';
+import { JobProgress } from './job-events.js';
+import { aggregateConfidence, aggregateCriteria, mergeFindings } from './aggregation.js';
+import { completeJob, failJob } from './analysis-store.js';
+import { assignExperiments } from './experiments.js';
+import { SiteAudit, applySiteAudit, auditSite, describeSiteAudit } from '../crawler/site-audit.js';
+import { runAnswerProbe } from './answer-probe.js';
+import { contextQualityEvidence, extractFraming } from './framing.js';
+import { Evidence, judgeGroundedness, weightedScore } from './groundedness.js';
+import { retrieveBrandContext } from './rag-context.js';
+import { BRAND_DOCUMENT_TYPES } from '../documents/brand-documents.js';
+import { normalizeInput } from './result-cache.js';
+import { env } from '../../config/env.js';
+import { PROVIDER_NAMES } from '../../config/providers.js';
+
+export type PipelineOptions = {
+  // Key for prompt experiment assignment; defaults to the jobId. Comparisons
+  // pass their own id so every brand in one comparison gets the same prompts.
+  experimentKey?: string;
+  // Ignore cached provider answers (POST /api/analyzer/analyze force_refresh)
+  forceRefresh?: boolean;
+  // Domain / industry / country / aliases given with the request, for every prompt
+  context?: BrandContext;
+  // Also measure share of voice with category questions (answer-probe.ts)
+  probe?: boolean;
+  // Tenant whose RAG documents the analysis reads and writes; defaults to TENANT_STATIC_ID
+  tenantId?: string;
+  // Store the result and crawl facts as RAG documents (default true). Off for
+  // competitors in a comparison: they are not the user's brands.
+  ingest?: boolean;
+};
+
+/**
+ * Save the analysis to RAG. Stable ids: the latest analysis and crawl of a
+ * brand replace the previous ones instead of piling up.
+ */
+async function storeAnalysisDocuments(
+  brandName: string,
+  jobId: string,
+  score: number,
+  promptVersion: string | undefined,
+  siteAudit: SiteAudit | null,
+  scope: RagScope
+) {
+  const brandKey = normalizeInput(brandName);
+  await contextService.ingestDocuments([{
+    id: `analysis-${brandKey}`,
+    content: `Brand: ${brandName}, PRO GEO Score: ${score}/100`,
+    metadata: {
+      type: 'pro-geo-analysis',
+      brandName,
+      score,
+      promptVersion,
+      jobId,
+      timestamp: new Date().toISOString()
+    }
+  }, ...(siteAudit?.reachable ? [{
+    // Crawl facts are retrieved as context by later analyses of the brand
+    id: `site-audit-${brandKey}`,
+    content: describeSiteAudit(siteAudit),
+    metadata: {
+      type: 'site-audit',
+      brandName,
+      domain: siteAudit.domain,
+      timestamp: siteAudit.auditedAt
+    }
+  }] : [])], scope);
+}
+
+// Multi-provider analysis (PRO only)
+export async function runMultiProviderAnalysis(
+  brandName: string,
+  jobId: string,
+  userId: string,
+  providers: AIProvider[],
+  options: PipelineOptions = {}
+) {
+  const progress = new JobProgress(jobId, providers.length);
+  const experiments = assignExperiments(options.experimentKey || jobId);
+  const ragScope: RagScope = { tenantId: options.tenantId || env.TENANT_STATIC_ID, userId };
+  
+  try {
+    console.log(`\n🎯 PRO GEO Analysis - Brand: ${brandName}`);
+    
+    // Run analysis with ALL available providers
+    console.log(`📡 Running ${providers.length} providers:`, providers.map(p => p.name).join(', '));
+    if (experiments.assignments.length > 0) {
+      console.log('🧪 Prompt experiments:', experiments.assignments.map(a => `${a.id}=${a.arm}`).join(', '));
+    }
+    
+    // With a known domain, crawl the site while the providers run
+    const domain = options.context?.domain;
+    const siteAuditPromise = domain
+      ? auditSite(domain).catch(error => {
+          console.error(`⚠️ Site audit failed for ${domain}:`, error.message);
+          return null;
+        })
+      : Promise.resolve(null);
+    
+    // Probing asks the same providers real category questions alongside the rubric
+    const probePromise = options.probe
+      ? runAnswerProbe(brandName, providers, options.context).catch(error => {
+          console.error(`⚠️ Answer probe failed for ${brandName}:`, error.message);
+          return null;
+        })
+      : Promise.resolve(null);
+    
+    // Stored documents about the brand go into every provider prompt
+    const rag = await retrieveBrandContext(brandName, ragScope, options.context);
+    if (rag) {
+      console.log(`📚 RAG context: ${rag.sources.length} documents, ~${rag.tokens}/${rag.budget} tokens`);
+    }
+    
+    const results = await Promise.allSettled(
+      providers.map(async (p) => {
+        try {
+          console.log(`  ⏳ Starting ${p.name}...`);
+          progress.started(p.name);
+          const result = await p.analyze(brandName, {
+            promptVersions: experiments.promptVersions,
+            forceRefresh: options.forceRefresh,
+            context: options.context,
+            ragContext: rag?.prompt,
+            ragKey: rag?.key
+          });
+          console.log(`  ✅ ${p.name} succeeded: ${result.score}${result.meta?.cached ? ' (cached)' : ''}`);
+          progress.succeeded(p.name, result.score);
+          return result;
+        } catch (error) {
+          if (error instanceof CircuitOpenError) {
+            console.log(`  ⏭️ ${p.name} skipped (circuit open)`);
+            progress.shortCircuited(p.name);
+          } else {
+            console.error(`  ❌ ${p.name} failed:`, error.message);
+            progress.failed(p.name, error.message);
+          }
+          throw error;
+        }
+      })
+    );
+    
+    // Collect successful results
+    let successfulResults = results
+      .filter((r): r is PromiseFulfilledResult<ProviderResult> => r.status === 'fulfilled')
+      .map(r => r.value);
+    
+    const errors = results
+      .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+      .map(r => r.reason);
+    
+    // Responses that failed schema validation are reported, never scored
+    const parseFailures = errors
+      .filter((e): e is ProviderParseError => e instanceof ProviderParseError)
+      .map(e => ({ provider: e.provider, errors: e.errors }));
+    
+    // Providers skipped because their circuit breaker is open
+    const shortCircuited = errors
+      .filter((e): e is CircuitOpenError => e instanceof CircuitOpenError)
+      .map(e => e.provider);
+    
+    const failedProviders = providers.length - successfulResults.length;
+    
+    if (successfulResults.length === 0) {
+      throw new Error('All providers failed');
+    }
+    
+    // Crawled signals replace every provider's Structured Data guess
+    const siteAudit = await siteAuditPromise;
+    if (siteAudit?.reachable) {
+      successfulResults = successfulResults.map(r => applySiteAudit(r, siteAudit));
+      console.log(`🕸️ Structured Data from ${siteAudit.domain}: ${siteAudit.structuredData.score}/${siteAudit.structuredData.max}`);
+    }
+    
+    const probe = await probePromise;
+    if (probe) {
+      const { shareOfVoice, averagePosition } = probe.overall;
+      console.log(`🔎 Share of voice: ${Math.round(shareOfVoice * 100)}%, average position: ${averagePosition ?? 'not listed'}`);
+    }
+    
+    console.log(`✅ ${successfulResults.length}/${providers.length} providers succeeded${failedProviders > 0 ? ` (${failedProviders} failed)` : ''}`);
+    
+    // Judge provider claims against what the user uploaded about the brand.
+    // Our own stored analyses and crawl summaries are not evidence, and
+    // Structured Data claims no longer count once the crawl has replaced them.
+    let groundedness = null;
+    if (env.GEVAL_ENABLED) {
+      const evidence: Evidence[] = [];
+      const uploaded = (rag?.entries || []).filter((_, i) => BRAND_DOCUMENT_TYPES.includes(rag.sources[i].type));
+      if (uploaded.length > 0) evidence.push({ source: 'brand-documents', text: uploaded.join('\n') });
+      const replaced: CriterionKey[] = siteAudit?.reachable ? ['structuredData'] : [];
+      
+      if (evidence.length > 0) {
+        groundedness = await judgeGroundedness(successfulResults, evidence, replaced).catch(error => {
+          console.error('⚠️ Groundedness check failed:', error.message);
+          return null;
+        });
+      }
+      if (groundedness) {
+        console.log(`🧾 Hallucination rate: ${Math.round(groundedness.hallucinationRate * 100)}% of ${groundedness.claims} claims${groundedness.flagged.length > 0 ? `, flagged: ${groundedness.flagged.join(', ')}` : ''}`);
+      } else {
+        console.log('🧾 Groundedness not checked: no brand documents to judge against');
+      }
+    }
+    
+    // Average score; providers flagged for ungrounded claims count less
+    const avgScore = weightedScore(successfulResults, groundedness);
+    
+    // Get primary result (first successful provider, usually ChatGPT)
+    const primaryResult = successfulResults[0];
+    
+    // Aggregate every criterion and finding across all successful providers
+    const breakdown = aggregateCriteria(successfulResults);
+    const criticalIssues = mergeFindings(successfulResults, r => r.issues);
+    const opportunities = mergeFindings(successfulResults, r => r.opportunities);
+    
+    // How each provider describes the brand backs the Context Quality score
+    const framing = extractFraming(successfulResults, probe);
+    breakdown.contextQuality.evidence = contextQualityEvidence(framing);
+    console.log(`💬 Framing: ${framing.overall.mentions} mentions, net sentiment ${framing.overall.netSentiment}${framing.overall.dominantFraming ? `, mostly ${framing.overall.dominantFraming}` : ''}`);
+    
+    const disputed = Object.values(breakdown).filter(c => c.disagreement).map(c => c.label);
+    if (disputed.length > 0) {
+      console.log(`⚠️ Providers disagree on: ${disputed.join(', ')}`);
+    }
+    
+    // Create flat structure for frontend compatibility
+    const providerScores: any = {};
+    successfulResults.forEach(r => {
+      providerScores[r.name] = r.score;
+    });
+    
+    console.log('📦 Provider scores for frontend:', providerScores);
+    
+    const finalResult = {
+      score: avgScore,
+      // Add flat structure FIRST for frontend compatibility
+      ...Object.fromEntries(PROVIDER_NAMES.map(name => [name, providerScores[name] || 0])),
+      // Keep array for detailed view
+      providers: successfulResults.map(r => {
+        const probed = probe?.providers.find(p => p.name === r.name);
+        const grounded = groundedness?.providers.find(p => p.name === r.name);
+        return {
+          name: r.name,
+          score: r.score,
+          summary: r.summary,
+          confidence: r.confidence,
+          prompts: r.meta?.prompts,
+          ...(r.meta?.cached && { cachedAt: r.meta.cachedAt }),
+          ...(r.sources && { sources: r.sources }),
+          // Probing metrics next to the rubric score
+          ...(probed && { shareOfVoice: probed.shareOfVoice, averagePosition: probed.averagePosition }),
+          sentiment: framing.providers.find(f => f.name === r.name)?.netSentiment ?? 0,
+          ...(grounded && !grounded.error && {
+            groundedness: grounded.groundedness,
+            hallucinationRate: grounded.hallucinationRate,
+            ...(grounded.flagged && { flagged: true, weight: grounded.weight })
+          })
+        };
+      }),
+      breakdown,
+      geoBreakdown: breakdown.geographicVisibility,
+      criticalIssues,
+      opportunities,
+      keyOpportunity: opportunities[0]?.text || '',
+      confidence: aggregateConfidence(successfulResults),
+      parseFailures,
+      shortCircuited,
+      analysis: primaryResult.summary,
+      verification: primaryResult.meta?.verification || '',
+      model: primaryResult.meta?.model || 'multi-provider',
+      promptVersion: primaryResult.meta?.promptVersion,
+      experiments: experiments.assignments,
+      timestamp: new Date().toISOString(),
+      brandName,
+      ...(options.context && { brandContext: options.context }),
+      ...(siteAudit && { siteAudit }),
+      ...(probe && { probe }),
+      framing,
+      ...(groundedness && { groundedness }),
+      ...(rag && { ragContext: { sources: rag.sources, tokens: rag.tokens, budget: rag.budget } })
+    };
+    
+    // Store result
+    await completeJob(jobId, finalResult);
+    progress.completed(avgScore);
+    
+    // The job is done: a RAG failure from here on must not fail it
+    if (options.ingest !== false) {
+      await storeAnalysisDocuments(brandName, jobId, avgScore, finalResult.promptVersion as string, siteAudit, ragScope)
+        .catch(error => console.error('⚠️ RAG ingestion failed:', error.message));
+    }
+    
+    console.log(`✅ PRO GEO analysis completed for ${brandName}\n`);
+    
+  } catch (error) {
+    console.error('❌ Analysis error:', error);
+    
+    await failJob(jobId, {
+      score: 30,
+      error: 'Analysis failed',
+      brandName,
+      timestamp: new Date().toISOString()
+    }).catch(err => console.error('❌ Failed to store failed job:', err));
+    progress.jobFailed('Analysis failed');
+  }
+}
@@ -0,0 +1,187 @@
+import { FastifyInstance } from 'fastify';
+import { FEATURE_FLAGS } from '../../config/features.js';
+import { env } from '../../config/env.js';
+import { redis } from '../../shared/redis.js';
+import { getJob } from './analysis-store.js';
+import {
+  JobEvent,
+  TERMINAL_EVENTS,
+  createEventReader,
+  jobStreamExists,
+  readJobEvents
+} from './job-events.js';
+
+// How long one XREAD blocks before we send a keep-alive
+const BLOCK_MS = 15000;
+
+type Send = (id: string, event: JobEvent) => void;
+
+/**
+ * Event for a job that finished before its stream was created or after it
+ * expired, rebuilt from the stored result
+ */
+function snapshotEvent(job: any): JobEvent {
+  const result = job.result || {};
+  const scores = Object.fromEntries((result.providers || []).map((p: any) => [p.name, p.score]));
+
+  return {
+    type: result.error ? 'job_failed' : 'aggregation_completed',
+    jobId: job.jobId,
+    error: result.error,
+    partial: {
+      total: (result.providers || []).length,
+      finished: (result.providers || []).length,
+      scores,
+      score: result.error ? null : result.score
+    },
+    timestamp: result.timestamp || new Date().toISOString()
+  };
+}
+
+/**
+ * Terminal event for a job still 'processing' past JOB_STALE_MS: its run
+ * died with the process, so no event will ever come
+ */
+function staleEvent(job: any): JobEvent {
+  return {
+    type: 'job_failed',
+    jobId: job.jobId,
+    error: 'Job stopped responding',
+    partial: { total: 0, finished: 0, scores: {}, score: null },
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * Relay job events after `lastId` until a terminal event, the client leaves
+ * or the job goes stale
+ */
+async function relayJobEvents(
+  job: any,
+  lastId: string,
+  send: Send,
+  keepAlive: () => void,
+  onClose: (cb: () => void) => void
+): Promise<void> {
+  const jobId = job.jobId;
+
+  // A finished job gets no more events: relay what is left of its stream
+  // without blocking, and end on its terminal event or the stored result.
+  // Never wait here, or a reconnect after the terminal event hangs forever.
+  if (job.status !== 'processing') {
+    const entries = (await jobStreamExists(jobId)) ? await readJobEvents(redis, jobId, lastId) : [];
+    for (const { id, event } of entries) {
+      send(id, event);
+      if (TERMINAL_EVENTS.includes(event.type)) return;
+    }
+    send('snapshot', snapshotEvent(job));
+    return;
+  }
+
+  // Processing jobs carry their start time as `timestamp`
+  const deadline = Date.parse(job.timestamp) + env.JOB_STALE_MS;
+
+  const reader = createEventReader();
+  let closed = false;
+  onClose(() => {
+    closed = true;
+    reader.disconnect();
+  });
+
+  try {
+    let cursor = lastId;
+    while (!closed) {
+      // Past the deadline, one last 1ms read for events already there (BLOCK 0 would wait forever)
+      const blockMs = Math.max(1, Math.min(BLOCK_MS, Math.ceil(deadline - Date.now())));
+      const entries = await readJobEvents(reader, jobId, cursor, blockMs);
+      if (entries.length === 0) {
+        if (Date.now() >= deadline) {
+          send('stale', staleEvent(job));
+          return;
+        }
+        keepAlive();
+        continue;
+      }
+
+      for (const { id, event } of entries) {
+        send(id, event);
+        cursor = id;
+        if (TERMINAL_EVENTS.includes(event.type)) return;
+      }
+    }
+  } catch (err) {
+    // Disconnecting the reader aborts a pending XREAD
+    if (!closed) console.error(`❌ Progress stream for job ${jobId} failed:`, err.message);
+  } finally {
+    reader.disconnect();
+  }
+}
+
+// Stream ids are "<ms>-<seq>"; anything else starts from the beginning
+function resumeFrom(id: unknown): string {
+  return typeof id === 'string' && /^\d+-\d+$/.test(id) ? id : '0';
+}
+
+export default async function progressRoutes(fastify: FastifyInstance) {
+  // Server-Sent Events. Browsers resume automatically via Last-Event-ID.
+  if (FEATURE_FLAGS.ENABLE_SSE) {
+    fastify.get('/api/analyzer/jobs/:id/events', async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const { lastEventId } = request.query as { lastEventId?: string };
+
+      const job = await getJob(id);
+      if (!job) {
+        reply.code(404);
+        return { error: 'Job not found' };
+      }
+
+      reply.hijack();
+      const res = reply.raw;
+      res.writeHead(200, {
+        ...(reply.getHeaders() as Record<string, string>),
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.write('retry: 3000\n\n');
+
+      await relayJobEvents(
+        job,
+        resumeFrom(request.headers['last-event-id'] || lastEventId),
+        (eventId, event) => {
+          res.write(`id: ${eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        },
+        () => res.write(': keep-alive\n\n'),
+        cb => res.on('close', cb)
+      );
+
+      res.end();
+    });
+  }
+
+  // WebSocket. Clients resume by reconnecting with ?lastEventId=<last id seen>.
+  if (FEATURE_FLAGS.ENABLE_WEBSOCKET) {
+    fastify.get('/api/analyzer/jobs/:id/ws', { websocket: true }, async (socket, request) => {
+      const { id } = request.params as { id: string };
+      const { lastEventId } = request.query as { lastEventId?: string };
+
+      const job = await getJob(id);
+      if (!job) {
+        socket.send(JSON.stringify({ error: 'Job not found' }));
+        socket.close(4404, 'Job not found');
+        return;
+      }
+
+      await relayJobEvents(
+        job,
+        resumeFrom(lastEventId),
+        (eventId, event) => socket.send(JSON.stringify({ id: eventId, ...event })),
+        () => socket.ping(),
+        cb => socket.on('close', cb)
+      );
+
+      socket.close(1000, 'Job finished');
+    });
+  }
+}
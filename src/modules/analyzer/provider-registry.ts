@@ -1,40 +1,55 @@
 import { AIProvider } from './providers/types.js';
+import { ResilientProvider } from '../../resilience/provider.js';
+import { redis } from '../../shared/redis.js';
+import { ChatCompletionsProvider } from './providers/chat-completions.provider.js';
+import { CHAT_COMPLETIONS_PROVIDERS } from '../../config/providers.js';
+import { SimulatedProvider, isSimulated } from './providers/simulated.provider.js';
+import { CachedProvider } from './result-cache.js';
 
-export async function buildProviders(tier: 'free' | 'pro'): Promise<AIProvider[]> {
-  // Only PRO tier now - FREE tier removed
-  // Use same PRO analysis for all cases
-  
+/**
+ * Every enabled provider, unwrapped: no retry, circuit breaker or cache, and
+ * so no Redis. buildProviders adds those; the calibration benchmark uses
+ * these as they are.
+ */
+export async function createProviders(): Promise<AIProvider[]> {
   const providers: AIProvider[] = [];
   
-  // Always use PRO providers
-  const chatgpt = new (await import('./providers/chatgpt.provider.js')).ChatGPTProvider();
-  if (chatgpt.isEnabled()) {
-    providers.push(chatgpt);
-  }
+  // SIMULATE_PROVIDERS swaps a provider for a local simulation, key or not
+  const add = (provider: AIProvider) => {
+    if (isSimulated(provider.name)) {
+      providers.push(new SimulatedProvider(provider.name));
+    } else if (provider.isEnabled()) {
+      providers.push(provider);
+    }
+  };
   
-  const deepseek = new (await import('./providers/deepseek.provider.js')).DeepSeekProvider();
-  if (deepseek.isEnabled()) {
-    providers.push(deepseek);
-  }
+  // Always use PRO providers
+  add(new (await import('./providers/chatgpt.provider.js')).ChatGPTProvider());
   
-  const mistral = new (await import('./providers/mistral.provider.js')).MistralProvider();
-  if (mistral.isEnabled()) {
-    providers.push(mistral);
+  // OpenAI-compatible vendors come straight from config
+  for (const config of CHAT_COMPLETIONS_PROVIDERS) {
+    add(new ChatCompletionsProvider(config));
   }
   
-  const grok = new (await import('./providers/grok.provider.js')).GrokProvider();
-  if (grok.isEnabled()) {
-    providers.push(grok);
-  }
+  add(new (await import('./providers/gemini.provider.js')).GeminiProvider());
+  add(new (await import('./providers/claude.provider.js')).ClaudeProvider());
   
-  const gemini = new (await import('./providers/gemini.provider.js')).GeminiProvider();
-  if (gemini.isEnabled()) {
-    providers.push(gemini);
+  const simulated = providers.filter(p => p instanceof SimulatedProvider).map(p => p.name);
+  if (simulated.length > 0) {
+    console.warn(`🧪 Simulated providers (no real API calls): ${simulated.join(', ')}`);
   }
-  
   return providers;
 }
 
+export async function buildProviders(tier: 'free' | 'pro'): Promise<AIProvider[]> {
+  // Only PRO tier now - FREE tier removed
+  // Use same PRO analysis for all cases
+  const providers = await createProviders();
+  
+  // Every provider gets retry + circuit breaker, behind the result cache
+  return providers.map(p => new CachedProvider(new ResilientProvider(p, redis), redis));
+}
+
 export function determineTier(userPlan: string): 'pro' {
   // Always return PRO - FREE tier removed
   return 'pro';
@@ -0,0 +1,133 @@
+import { AIProvider, AnalyzeOptions, ProviderName, ProviderResult, Source } from './types.js';
+import { ChatCompletionsConfig } from '../../../config/providers.js';
+import { FEATURE_FLAGS } from '../../../config/features.js';
+import { GEO_RESULT_JSON_SCHEMA, parseProviderResult } from './result-schema.js';
+import { PromptId, brandVariables, promptMeta, renderPrompt } from './prompts.js';
+import { hasFixtures, providerFetch } from '../../../shared/provider-http.js';
+
+function responseFormat(config: ChatCompletionsConfig) {
+  switch (config.responseFormat || 'json_object') {
+    case 'json_object':
+      return { type: 'json_object' };
+    case 'json_schema':
+      return { type: 'json_schema', json_schema: { name: 'geo_analysis', schema: GEO_RESULT_JSON_SCHEMA } };
+    default:
+      return undefined;
+  }
+}
+
+// Perplexity-style `search_results` (with titles) or bare `citations` URLs
+function extractSources(data: any): Source[] {
+  if (Array.isArray(data.search_results) && data.search_results.length > 0) {
+    return data.search_results
+      .filter((r: any) => typeof r?.url === 'string')
+      .map((r: any) => ({ url: r.url, title: r.title || undefined }));
+  }
+  if (Array.isArray(data.citations)) {
+    return data.citations
+      .filter((url: unknown) => typeof url === 'string')
+      .map((url: string) => ({ url }));
+  }
+  return [];
+}
+
+/**
+ * Generic provider for any OpenAI-compatible /chat/completions API,
+ * driven entirely by a ChatCompletionsConfig entry
+ */
+export class ChatCompletionsProvider implements AIProvider {
+  name: ProviderName;
+  model: string;
+  prompts: PromptId[];
+
+  constructor(private config: ChatCompletionsConfig) {
+    this.name = config.name as ProviderName;
+    this.model = config.model;
+    this.prompts = [config.promptId];
+  }
+
+  private get apiKey(): string {
+    return process.env[this.config.apiKeyEnv] || '';
+  }
+
+  isEnabled() {
+    const { featureFlag } = this.config;
+    return (!featureFlag || FEATURE_FLAGS[featureFlag])
+      && (!!this.apiKey || hasFixtures(this.name))
+      && process.env[`PROVIDER_${this.name.toUpperCase()}_ENABLED`] !== 'false';
+  }
+
+  // POST /chat/completions with AI_TIMEOUT_MS; returns the parsed response body
+  private async complete(prompt: string, body: Record<string, unknown>): Promise<any> {
+    const { label, baseUrl, model } = this.config;
+    const controller = new AbortController();
+    const timeoutMs = Number(process.env.AI_TIMEOUT_MS || 25000);
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const authHeader = this.config.authHeader || 'Authorization';
+      const authScheme = this.config.authScheme ?? 'Bearer';
+
+      const res = await providerFetch({ provider: this.name, model, prompt }, `${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [authHeader]: authScheme ? `${authScheme} ${this.apiKey}` : this.apiKey
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          max_tokens: this.config.maxTokens,
+          ...body
+        }),
+        signal: controller.signal
+      });
+
+      if (!res.ok) {
+        const errorText = await res.text();
+        throw Object.assign(new Error(`${label} API error: ${res.status} - ${errorText}`), { status: res.status });
+      }
+
+      return await res.json();
+    } catch (error) {
+      if (error.name === 'AbortError') {
+        throw new Error(`${label} timeout after ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async analyze(input: string, options: AnalyzeOptions = {}): Promise<ProviderResult> {
+    const prompt = renderPrompt(
+      this.config.promptId,
+      brandVariables(input, options.context, options.ragContext),
+      options.promptVersions?.[this.config.promptId]
+    );
+
+    const data = await this.complete(prompt.text, {
+      temperature: this.config.temperature ?? 0.1,
+      response_format: responseFormat(this.config)
+    });
+    const raw = data.choices[0]?.message?.content?.trim() || '';
+
+    console.log(`🔍 ${this.config.label} Response (first 400 chars):\n${raw.substring(0, 400)}\n`);
+
+    const result = parseProviderResult(this.name, raw, {
+      model: this.model,
+      ...promptMeta(prompt)
+    });
+
+    if (this.config.sources) {
+      result.sources = extractSources(data);
+    }
+
+    return result;
+  }
+
+  async ask(question: string): Promise<string> {
+    const data = await this.complete(question, { temperature: 0.3 });
+    return data.choices[0]?.message?.content?.trim() || '';
+  }
+}
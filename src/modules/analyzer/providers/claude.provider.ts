@@ -0,0 +1,94 @@
+import { AIProvider, AnalyzeOptions, ProviderResult } from './types.js';
+import { env } from '../../../config/env.js';
+import { FEATURE_FLAGS } from '../../../config/features.js';
+import { GEO_RESULT_JSON_SCHEMA, parseProviderResult } from './result-schema.js';
+import { PromptId, brandVariables, promptMeta, renderPrompt } from './prompts.js';
+import { hasFixtures, providerFetch } from '../../../shared/provider-http.js';
+
+const MODEL = 'claude-3-5-haiku-latest';
+const TOOL_NAME = 'record_geo_analysis';
+
+function textOf(data: any): string {
+  return (data.content || []).filter((b: any) => b.type === 'text').map((b: any) => b.text).join('').trim();
+}
+
+export class ClaudeProvider implements AIProvider {
+  name: 'claude' = 'claude';
+  model = MODEL;
+  prompts: PromptId[] = ['geo-brutal'];
+
+  isEnabled() {
+    return FEATURE_FLAGS.ENABLE_CLAUDE
+      && (!!env.ANTHROPIC_API_KEY || hasFixtures(this.name))
+      && process.env.PROVIDER_CLAUDE_ENABLED !== 'false';
+  }
+
+  // Messages API call with AI_TIMEOUT_MS; returns the parsed response body
+  private async message(prompt: string, body: Record<string, unknown>): Promise<any> {
+    const controller = new AbortController();
+    const timeoutMs = Number(process.env.AI_TIMEOUT_MS || 25000);
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const res = await providerFetch({ provider: this.name, model: MODEL, prompt }, 'https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': env.ANTHROPIC_API_KEY,
+          'anthropic-version': '2023-06-01'
+        },
+        body: JSON.stringify({
+          model: MODEL,
+          messages: [{ role: 'user', content: prompt }],
+          ...body
+        }),
+        signal: controller.signal
+      });
+
+      if (!res.ok) {
+        const errorText = await res.text();
+        throw Object.assign(new Error(`Claude API error: ${res.status} - ${errorText}`), { status: res.status });
+      }
+
+      return await res.json();
+    } catch (error) {
+      if (error.name === 'AbortError') {
+        throw new Error(`Claude timeout after ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async analyze(input: string, options: AnalyzeOptions = {}): Promise<ProviderResult> {
+    const prompt = renderPrompt('geo-brutal', brandVariables(input, options.context, options.ragContext), options.promptVersions?.['geo-brutal']);
+
+    // The Messages API has no JSON mode; forcing a tool call whose input
+    // schema is the GEO result schema gives us structured output instead
+    const data = await this.message(prompt.text, {
+      max_tokens: 1500,
+      temperature: 0.1, // Lower for stricter scoring
+      tools: [{
+        name: TOOL_NAME,
+        description: 'Record the GEO visibility analysis for the brand',
+        input_schema: GEO_RESULT_JSON_SCHEMA
+      }],
+      tool_choice: { type: 'tool', name: TOOL_NAME }
+    });
+
+    const toolUse = data.content?.find((block: any) => block.type === 'tool_use' && block.name === TOOL_NAME);
+    const raw = toolUse ? JSON.stringify(toolUse.input) : textOf(data);
+
+    console.log(`🔍 Claude Response (first 400 chars):\n${raw.substring(0, 400)}\n`);
+
+    return parseProviderResult(this.name, raw, {
+      model: MODEL,
+      ...promptMeta(prompt)
+    });
+  }
+
+  async ask(question: string): Promise<string> {
+    return textOf(await this.message(question, { max_tokens: 800, temperature: 0.3 }));
+  }
+}
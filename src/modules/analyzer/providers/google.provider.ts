@@ -1,18 +0,0 @@
-import type { AIProvider, AnalysisResult } from '../types.js';
-
-export class GoogleProvider implements AIProvider {
-  name = 'google';
-  
-  async analyze(input: string): Promise<AnalysisResult> {
-    // Mock implementation for now
-    return {
-      provider: 'google',
-      score: Math.random() * 100,
-      details: {
-        visibility: 'medium',
-        confidence: 0.7,
-        timestamp: new Date().toISOString()
-      }
-    };
-  }
-}
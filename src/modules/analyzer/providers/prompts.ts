@@ -0,0 +1,440 @@
+import { buildJsonResponseInstructions } from './result-schema.js';
+import type { BrandContext } from './types.js';
+
+// Central registry of GEO analysis prompts. Templates use {{variable}}
+// placeholders; every version since 3.4-structured (the first with JSON output)
+// stays listed so stored results can be traced back to the exact text that
+// produced them. The earlier prose prompts (3.2, 3.3) predate the registry and
+// only exist in git history; their free-text answers can't be parsed anymore.
+export type PromptId = 'geo-ultimate' | 'geo-verification' | 'geo-brutal' | 'geo-brutal-compact' | 'probe-questions';
+
+export type PromptTemplate = {
+  id: PromptId;
+  version: string;
+  variables: string[];
+  template: string;
+};
+
+export type RenderedPrompt = {
+  id: PromptId;
+  version: string;
+  text: string;
+};
+
+const JSON_INSTRUCTIONS = buildJsonResponseInstructions();
+
+// The rubric as of 3.4, before brand context existed
+const V3_4_TEMPLATES: PromptTemplate[] = [
+  {
+    // ChatGPT pass 1: full rubric with per-criterion bands
+    id: 'geo-ultimate',
+    version: '3.4-structured',
+    variables: ['brandName'],
+    template: `You are an EXTREMELY STRICT GEO analyst. Analyze "{{brandName}}" with BRUTAL HONESTY.
+
+═══════════════════════════════════════════════════════════════════
+🚨 CRITICAL: BE BRUTALLY HONEST - LOW SCORES ARE THE NORM! 🚨
+═══════════════════════════════════════════════════════════════════
+
+REAL-WORLD AI VISIBILITY BENCHMARKS (backed by industry data):
+• 0-5%: Brand doesn't exist in AI answers (most unknown brands)
+• 5-15%: Minimal presence, rare mentions (small startups)
+• 15-25%: Beginning visibility (local businesses)
+• 25-35%: Moderate presence (established regional players)
+• 35-50%: Strong visibility (national brands)
+• 50%+: Exceptional (major brands like Nike, Tesla)
+
+SCORING SCALE (0-100):
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+0-5:    Dead/non-existent brand, no website, zero online presence
+5-15:   Unknown startup, no traction, minimal or no citations
+15-30:  Small local business, very limited visibility
+30-50:  Regional player, some market presence
+50-70:  Established national brand, regular citations
+70-85:  Major brand, strong market position
+85-95:  Global leader, dominant in category (Apple, Google, Nike)
+96-100: RESERVED FOR TOP 5 GLOBAL BRANDS ONLY
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+⚠️ MANDATORY REALITY CHECKS (APPLY STRICTLY):
+1. NO WEBSITE OR DEAD SITE = Maximum 5 points TOTAL
+2. NEVER heard of in AI systems = 0-5 points maximum
+3. NO CLIENTS/NO REVENUE = 0-8 points maximum  
+4. INACTIVE 6+ months = Maximum 10 points
+5. NO COMMUNITY/SOCIAL MEDIA = 0 in Community Authority
+6. DEFAULT TO LOWER SCORES when uncertain!
+7. BE HONEST: 90% of brands score 5-30/100
+
+EVALUATION CRITERIA (8 categories, 100 points total):
+
+1. AI SEARCH PRESENCE (0-25 points)
+   Reality: Most brands score 0-5 here
+   0-3:   Never appears in AI answers
+   4-8:   Extremely rare mentions
+   9-15:  Occasional niche appearances
+   16-20: Regular category mentions
+   21-25: Industry leader status (very rare)
+
+2. BRAND AUTHORITY (0-20 points)
+   Reality: Most brands score 0-3 here
+   0-2:   No authority, generic mentions
+   3-5:   Minimal recognition
+   6-10:  Some niche authority
+   11-15: Recognized expert
+   16-20: Industry thought leader (rare)
+
+3. CONTEXT QUALITY (0-18 points)
+   Reality: Most brands score 0-3 here
+   0-3:   No context or negative
+   4-7:   Neutral mentions only
+   8-12:  Some positive context
+   13-15: Recommended in contexts
+   16-18: Preferred choice (rare)
+
+4. COMPETITIVE POSITION (0-15 points)
+   Reality: Most brands score 0-2 here
+   0-2:   Not mentioned vs competitors
+   3-5:   Listed among 10+ competitors
+   6-9:   Top 5 in category
+   10-12: Top 3 positioning
+   13-15: Category leader (very rare)
+
+5. COMMUNITY AUTHORITY (0-10 points)
+   Reality: Most brands score 0 here
+   0:     No community presence
+   1-2:   Minimal mentions
+   3-5:   Some discussions
+   6-8:   Active community
+   9-10:  Community champion (rare)
+
+6. INFORMATION RICHNESS (0-12 points)
+   Reality: Most brands score 0-3 here
+   0-2:   No information available
+   3-5:   Basic single-source info
+   6-8:   Multi-source coverage
+   9-10:  Rich documentation
+   11-12: Comprehensive authority (rare)
+
+7. STRUCTURED DATA (0-8 points)
+   Reality: Most brands score 0-2 here
+   0-1:   No website or structure
+   2-3:   Basic website
+   4-5:   Good structure
+   6-7:   Excellent schema
+   8:     Perfect optimization (very rare)
+
+8. GEOGRAPHIC VISIBILITY (0-12 points)
+   Reality: Most brands score 0-2 here
+   0-2:   No geographic data
+   3-5:   Single market, weak
+   6-8:   Regional presence
+   9-10:  Multi-market
+   11-12: Global presence (rare)
+
+═══════════════════════════════════════════════════════════════════
+
+${JSON_INSTRUCTIONS}
+
+═══════════════════════════════════════════════════════════════════
+
+BE BRUTALLY HONEST. Most brands you analyze will score 5-30/100.
+That's NORMAL and CORRECT. Don't be generous - be REALISTIC!`
+  },
+  {
+    // ChatGPT pass 2: re-check the pass 1 JSON for score inflation
+    id: 'geo-verification',
+    version: '3.4-structured',
+    variables: ['brandName', 'analysis'],
+    template: `STRICT VERIFICATION PASS - Check for score inflation!
+
+BRAND: "{{brandName}}"
+ANALYSIS TO VERIFY (JSON):
+{{analysis}}
+
+═══════════════════════════════════════════════════════════════════
+VERIFICATION CHECKLIST:
+═══════════════════════════════════════════════════════════════════
+
+1. REALITY CHECK:
+   • Is this brand actually well-known? (be honest!)
+   • Did we score TOO HIGH? (common mistake!)
+   • Does the score match real-world visibility?
+
+2. CRITICAL RULES COMPLIANCE:
+   ✓ No website = Max 5 points total?
+   ✓ Unknown brand = Max 15 points?
+   ✓ No clients/revenue = Max 8 points?
+   ✓ Dead/inactive = Max 10 points?
+
+3. SCORE INFLATION CHECK:
+   • Are we being TOO GENEROUS? (reduce by 30-50%)
+   • Is each criterion scored conservatively?
+   • Did we apply strict benchmarks?
+
+4. BENCHMARK REALITY:
+   • 90% of brands score 5-30/100 ← This is NORMAL
+   • Only major brands score 50+
+   • Scores above 70 = Nike/Tesla level ONLY
+
+═══════════════════════════════════════════════════════════════════
+
+⚠️ MANDATORY: RETURN THE CORRECTED ANALYSIS IN THE SAME JSON SHAPE.
+Reduce any inflated criterion score, rewrite its reason to say why,
+and keep the summary, issues and opportunities consistent with the new scores.
+
+${JSON_INSTRUCTIONS}
+
+═══════════════════════════════════════════════════════════════════
+
+CRITICAL: Reduce scores by 30-50% if they seem too generous!
+Most brands should score 5-30/100. Be STRICT!`
+  },
+  {
+    id: 'geo-brutal',
+    version: '3.4-structured',
+    variables: ['brandName'],
+    template: `You are an EXTREMELY STRICT GEO analyst. Analyze "{{brandName}}" with BRUTAL HONESTY.
+
+═══════════════════════════════════════════════════════════════════
+🚨 CRITICAL: BE BRUTALLY HONEST - LOW SCORES ARE THE NORM! 🚨
+═══════════════════════════════════════════════════════════════════
+
+REAL-WORLD AI VISIBILITY BENCHMARKS (backed by industry data):
+• 0-5%: Brand doesn't exist in AI answers (most unknown brands)
+• 5-15%: Minimal presence, rare mentions (small startups)
+• 15-25%: Beginning visibility (local businesses)
+• 25-35%: Moderate presence (established regional players)
+• 35-50%: Strong visibility (national brands)
+• 50%+: Exceptional (major brands like Nike, Tesla)
+
+SCORING SCALE (0-100):
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+0-5:    Dead/non-existent brand, no website, zero online presence
+5-15:   Unknown startup, no traction, minimal or no citations
+15-30:  Small local business, very limited visibility
+30-50:  Regional player, some market presence
+50-70:  Established national brand, regular citations
+70-85:  Major brand, strong market position
+85-95:  Global leader, dominant in category (Apple, Google, Nike)
+96-100: RESERVED FOR TOP 5 GLOBAL BRANDS ONLY
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+⚠️ MANDATORY REALITY CHECKS (APPLY STRICTLY):
+1. NO WEBSITE OR DEAD SITE = Maximum 5 points TOTAL
+2. NEVER heard of in AI systems = 0-5 points maximum
+3. NO CLIENTS/NO REVENUE = 0-8 points maximum  
+4. INACTIVE 6+ months = Maximum 10 points
+5. NO COMMUNITY/SOCIAL MEDIA = 0 in Community Authority
+6. DEFAULT TO LOWER SCORES when uncertain!
+7. BE HONEST: 90% of brands score 5-30/100
+
+EVALUATION CRITERIA (8 categories, 100 points total):
+
+1. AI SEARCH PRESENCE (0-25 points) - Most brands: 0-5
+2. BRAND AUTHORITY (0-20 points) - Most brands: 0-3
+3. CONTEXT QUALITY (0-18 points) - Most brands: 0-3
+4. COMPETITIVE POSITION (0-15 points) - Most brands: 0-2
+5. COMMUNITY AUTHORITY (0-10 points) - Most brands: 0
+6. INFORMATION RICHNESS (0-12 points) - Most brands: 0-3
+7. STRUCTURED DATA (0-8 points) - Most brands: 0-2
+8. GEOGRAPHIC VISIBILITY (0-12 points) - Most brands: 0-2
+
+═══════════════════════════════════════════════════════════════════
+
+${JSON_INSTRUCTIONS}
+
+═══════════════════════════════════════════════════════════════════
+
+BE BRUTALLY HONEST. Most brands score 5-30/100. That's NORMAL!`
+  },
+  {
+    // Shorter wording of the same rubric for models with tighter output budgets
+    id: 'geo-brutal-compact',
+    version: '3.4-structured',
+    variables: ['brandName'],
+    template: `You are an EXTREMELY STRICT GEO analyst. Analyze "{{brandName}}" with BRUTAL HONESTY.
+
+═══════════════════════════════════════════════════════════════════
+🚨 CRITICAL: BE BRUTALLY HONEST - LOW SCORES ARE THE NORM! 🚨
+═══════════════════════════════════════════════════════════════════
+
+REAL-WORLD BENCHMARKS (backed by industry data):
+• 0-5%: Brand invisible in AI (most unknown brands)
+• 5-15%: Minimal presence (small startups)
+• 15-25%: Beginning visibility (local businesses)
+• 25-35%: Moderate (regional players)
+• 35-50%: Strong (national brands)
+• 50%+: Exceptional (Nike, Tesla level)
+
+SCORING SCALE (0-100):
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+0-5:    Dead/non-existent, no website, zero online presence
+5-15:   Unknown startup, no traction, minimal citations
+15-30:  Small local business, very limited visibility
+30-50:  Regional player, some market presence
+50-70:  National brand, regular citations
+70-85:  Major brand, strong position
+85-95:  Global leader (Apple, Google, Nike)
+96-100: TOP 5 GLOBAL BRANDS ONLY
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+⚠️ MANDATORY RULES (STRICTLY ENFORCED):
+1. NO WEBSITE/DEAD SITE = Max 5 points TOTAL
+2. UNKNOWN IN AI = 0-5 points max
+3. NO CLIENTS/REVENUE = 0-8 points max
+4. INACTIVE 6+ months = Max 10 points
+5. NO COMMUNITY = 0 in Community Authority
+6. DEFAULT TO LOWER when uncertain!
+7. 90% of brands score 5-30/100
+
+EVALUATE 8 CRITERIA (100 points total):
+1. AI Search Presence: 0-25 (most: 0-5)
+2. Brand Authority: 0-20 (most: 0-3)
+3. Context Quality: 0-18 (most: 0-3)
+4. Competitive Position: 0-15 (most: 0-2)
+5. Community Authority: 0-10 (most: 0)
+6. Information Richness: 0-12 (most: 0-3)
+7. Structured Data: 0-8 (most: 0-2)
+8. Geographic Visibility: 0-12 (most: 0-2)
+
+═══════════════════════════════════════════════════════════════════
+${JSON_INSTRUCTIONS}
+
+═══════════════════════════════════════════════════════════════════
+
+CRITICAL: Most brands score 5-30/100. Be STRICT!`
+  }
+];
+
+// Answer probing: realistic category questions that never name the brand
+const PROBE_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'probe-questions',
+    version: '1.0',
+    variables: ['brandName', 'brandContext', 'count'],
+    template: `You help measure which brands AI assistants recommend. The brand is "{{brandName}}".{{brandContext}}
+
+Write {{count}} questions a real customer would ask an AI assistant while looking for a product or service in this brand's category, for example "best project management tool for agencies".
+
+RULES:
+- NEVER mention "{{brandName}}" or any other brand in a question
+- Mix intents: "best/top" lists, a specific use case or audience, budget options, alternatives
+- Each question under 15 words, written the way people actually type
+
+Respond with ONLY this JSON, no markdown:
+{"category": "<the brand's category in 2-5 words>", "questions": ["<question>", ...]}`
+  }
+];
+
+// Same text plus a {{brandContext}} block after the line naming the brand.
+// Without context the block is empty and the text matches the base version.
+function withBrandContext(base: PromptTemplate, version: string): PromptTemplate {
+  const lines = base.template.split('\n');
+  const i = lines.findIndex(line => line.includes('{{brandName}}'));
+  lines[i] += '{{brandContext}}';
+  return {
+    ...base,
+    version,
+    variables: [...base.variables, 'brandContext'],
+    template: lines.join('\n')
+  };
+}
+
+// Adds a {{ragContext}} block (stored documents about the brand) right after
+// {{brandContext}}. Without retrieved documents the text matches 3.5-context.
+function withRagContext(base: PromptTemplate, version: string): PromptTemplate {
+  return {
+    ...base,
+    version,
+    variables: [...base.variables, 'ragContext'],
+    template: base.template.replace('{{brandContext}}', '{{brandContext}}{{ragContext}}')
+  };
+}
+
+// Newest version first; the first entry for an id is its default
+const TEMPLATES: PromptTemplate[] = [
+  ...V3_4_TEMPLATES.map(t => withRagContext(withBrandContext(t, '3.5-context'), '3.6-rag')),
+  ...V3_4_TEMPLATES.map(t => withBrandContext(t, '3.5-context')),
+  ...V3_4_TEMPLATES,
+  ...PROBE_TEMPLATES
+];
+
+const oneLine = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+/**
+ * The {{brandContext}} block: what the caller told us about the brand, so
+ * "Delta" the airline is not scored as Delta the faucet maker
+ */
+export function renderBrandContext(context: BrandContext = {}): string {
+  const lines: string[] = [];
+  if (context.domain) lines.push(`• Website: ${oneLine(context.domain)}`);
+  if (context.industry) lines.push(`• Industry: ${oneLine(context.industry)}`);
+  if (context.country) lines.push(`• Main market: ${oneLine(context.country)}`);
+  if (context.aliases?.length) lines.push(`• Also known as: ${context.aliases.map(oneLine).join(', ')}`);
+
+  if (lines.length === 0) return '';
+  return `\n\nBRAND IDENTITY - analyze THIS entity only, not other companies with the same name:\n${lines.join('\n')}`;
+}
+
+// Variables every brand prompt takes. `ragContext` is the block rendered by
+// modules/analyzer/rag-context.ts, empty when nothing was retrieved.
+export function brandVariables(brandName: string, context?: BrandContext, ragContext = '') {
+  return { brandName, brandContext: renderBrandContext(context), ragContext };
+}
+
+export function getPromptTemplate(id: PromptId, version?: string): PromptTemplate {
+  const template = TEMPLATES.find(t => t.id === id && (!version || t.version === version));
+  if (!template) {
+    throw new Error(`Unknown prompt ${id}${version ? `@${version}` : ''}`);
+  }
+  return template;
+}
+
+/**
+ * Fill a template's variables. Unknown placeholders and missing values are
+ * errors, so a prompt never goes out with a literal {{variable}} in it.
+ */
+export function renderPrompt(
+  id: PromptId,
+  variables: Record<string, string>,
+  version?: string
+): RenderedPrompt {
+  const template = getPromptTemplate(id, version);
+
+  const text = template.template.replace(/\{\{(\w+)\}\}/g, (_, name) => {
+    if (!template.variables.includes(name)) {
+      throw new Error(`Prompt ${id}@${template.version} uses undeclared variable "${name}"`);
+    }
+    if (variables[name] === undefined) {
+      throw new Error(`Prompt ${id}@${template.version} is missing variable "${name}"`);
+    }
+    return variables[name];
+  });
+
+  return { id, version: template.version, text };
+}
+
+/**
+ * Provider result meta for the prompts a call used: the first is the main
+ * analysis prompt, `prompts` lists every id → version rendered
+ */
+export function promptMeta(...prompts: RenderedPrompt[]) {
+  return {
+    promptId: prompts[0].id,
+    promptVersion: prompts[0].version,
+    prompts: Object.fromEntries(prompts.map(p => [p.id, p.version])) as Partial<Record<PromptId, string>>
+  };
+}
+
+export function listPrompts() {
+  return TEMPLATES.map(t => ({
+    id: t.id,
+    version: t.version,
+    variables: t.variables,
+    isDefault: getPromptTemplate(t.id) === t
+  }));
+}
+
+export const DEFAULT_PROMPT_VERSIONS = Object.fromEntries(
+  [...new Set(TEMPLATES.map(t => t.id))].map(id => [id, getPromptTemplate(id).version])
+) as Record<PromptId, string>;
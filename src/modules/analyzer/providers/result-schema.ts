@@ -0,0 +1,179 @@
+import { Confidence, CriterionKey, CriterionScore, ProviderName, ProviderResult } from './types.js';
+
+// The 8 GEO criteria (100 points total). `field` is the snake_case key the
+// models are asked to return, `key` is what we expose in ProviderResult.
+export const CRITERIA: { key: CriterionKey; field: string; label: string; max: number }[] = [
+  { key: 'aiSearchPresence', field: 'ai_search_presence', label: 'AI Search Presence', max: 25 },
+  { key: 'brandAuthority', field: 'brand_authority', label: 'Brand Authority', max: 20 },
+  { key: 'contextQuality', field: 'context_quality', label: 'Context Quality', max: 18 },
+  { key: 'competitivePosition', field: 'competitive_position', label: 'Competitive Position', max: 15 },
+  { key: 'communityAuthority', field: 'community_authority', label: 'Community Authority', max: 10 },
+  { key: 'informationRichness', field: 'information_richness', label: 'Information Richness', max: 12 },
+  { key: 'structuredData', field: 'structured_data', label: 'Structured Data', max: 8 },
+  { key: 'geographicVisibility', field: 'geographic_visibility', label: 'Geographic Visibility', max: 12 }
+];
+
+const CONFIDENCE_VALUES: Confidence[] = ['High', 'Medium', 'Low'];
+
+/**
+ * JSON Schema for the analysis response. Written in the strict subset
+ * (every property required, no additional properties) so it can be passed
+ * to OpenAI-style `json_schema` structured outputs as-is.
+ */
+export const GEO_RESULT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    breakdown: {
+      type: 'object',
+      properties: Object.fromEntries(
+        CRITERIA.map(c => [c.field, {
+          type: 'object',
+          properties: {
+            score: { type: 'integer', description: `0-${c.max}` },
+            reason: { type: 'string' }
+          },
+          required: ['score', 'reason'],
+          additionalProperties: false
+        }])
+      ),
+      required: CRITERIA.map(c => c.field),
+      additionalProperties: false
+    },
+    critical_issues: { type: 'array', items: { type: 'string' } },
+    opportunities: { type: 'array', items: { type: 'string' } },
+    confidence: { type: 'string', enum: CONFIDENCE_VALUES }
+  },
+  required: ['summary', 'breakdown', 'critical_issues', 'opportunities', 'confidence'],
+  additionalProperties: false
+};
+
+/**
+ * Response format section shared by every GEO prompt
+ */
+export function buildJsonResponseInstructions(): string {
+  const breakdown = CRITERIA
+    .map(c => `    "${c.field}": { "score": <0-${c.max}>, "reason": "<reality check>" }`)
+    .join(',\n');
+
+  return `⚠️ MANDATORY: RESPOND WITH ONLY VALID JSON (no markdown, no prose) IN THIS EXACT SHAPE:
+
+{
+  "summary": "<2-3 sentences with BRUTAL HONESTY about actual visibility>",
+  "breakdown": {
+${breakdown}
+  },
+  "critical_issues": ["<most severe problem>", "<second problem>", "<third problem>"],
+  "opportunities": ["<biggest opportunity>", "<second opportunity>"],
+  "confidence": "High" | "Medium" | "Low"
+}
+
+Every criterion is REQUIRED. Scores are integers within each criterion's range.
+The total score is the sum of the 8 criteria (expect 5-30 for most brands).`;
+}
+
+/**
+ * Thrown when a provider response does not match GEO_RESULT_JSON_SCHEMA.
+ * The pipeline records these as parse failures instead of inventing a score.
+ */
+export class ProviderParseError extends Error {
+  constructor(
+    public provider: ProviderName,
+    public errors: string[],
+    public raw: string
+  ) {
+    super(`${provider} returned invalid analysis: ${errors.join('; ')}`);
+    this.name = 'ProviderParseError';
+  }
+}
+
+type ValidatedOutput = Omit<ProviderResult, 'name' | 'meta'>;
+
+/**
+ * Validate a parsed response object. Returns the list of schema violations
+ * (empty when valid) and the typed result.
+ */
+export function validateGeoResult(data: any): { errors: string[]; value?: ValidatedOutput } {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: ['response is not a JSON object'] };
+  }
+
+  if (typeof data.summary !== 'string') errors.push('summary must be a string');
+
+  const breakdown = {} as Record<CriterionKey, CriterionScore>;
+  if (!data.breakdown || typeof data.breakdown !== 'object') {
+    errors.push('breakdown must be an object');
+  } else {
+    for (const c of CRITERIA) {
+      const entry = data.breakdown[c.field];
+      const score = entry?.score;
+      if (typeof score !== 'number' || !Number.isFinite(score)) {
+        errors.push(`breakdown.${c.field}.score is missing`);
+        continue;
+      }
+      if (score < 0 || score > c.max) {
+        errors.push(`breakdown.${c.field}.score ${score} is outside 0-${c.max}`);
+        continue;
+      }
+      breakdown[c.key] = {
+        score: Math.round(score),
+        max: c.max,
+        reason: typeof entry.reason === 'string' ? entry.reason.trim() : ''
+      };
+    }
+  }
+
+  const isStringArray = (v: any) => Array.isArray(v) && v.every(i => typeof i === 'string');
+  if (!isStringArray(data.critical_issues)) errors.push('critical_issues must be an array of strings');
+  if (!isStringArray(data.opportunities)) errors.push('opportunities must be an array of strings');
+  if (!CONFIDENCE_VALUES.includes(data.confidence)) {
+    errors.push(`confidence must be one of ${CONFIDENCE_VALUES.join(', ')}`);
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const score = CRITERIA.reduce((sum, c) => sum + breakdown[c.key].score, 0);
+
+  return {
+    errors,
+    value: {
+      score: Math.max(0, Math.min(100, score)),
+      breakdown,
+      summary: data.summary.trim(),
+      issues: data.critical_issues.map((i: string) => i.trim()).filter(Boolean),
+      opportunities: data.opportunities.map((o: string) => o.trim()).filter(Boolean),
+      confidence: data.confidence
+    }
+  };
+}
+
+/**
+ * Parse raw model text into a typed ProviderResult, or throw ProviderParseError
+ */
+export function parseProviderResult(
+  name: ProviderName,
+  raw: string,
+  meta: Record<string, unknown> = {}
+): ProviderResult {
+  // Some models still wrap JSON mode output in markdown fences
+  const clean = raw
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+
+  let data: unknown;
+  try {
+    data = JSON.parse(clean);
+  } catch {
+    throw new ProviderParseError(name, ['response is not valid JSON'], raw);
+  }
+
+  const { errors, value } = validateGeoResult(data);
+  if (!value) {
+    throw new ProviderParseError(name, errors, raw);
+  }
+
+  return { name, ...value, meta: { raw, ...meta } };
+}
@@ -0,0 +1,158 @@
+import { AIProvider, AnalyzeOptions, AskOptions, ProviderName, ProviderResult } from './types.js';
+import { env } from '../../../config/env.js';
+import { sha256 } from '../../../shared/hash.js';
+import { CRITERIA, parseProviderResult } from './result-schema.js';
+import { PromptId, brandVariables, promptMeta, renderPrompt } from './prompts.js';
+
+function sleep(ms: number) {
+  return new Promise(r => setTimeout(r, ms));
+}
+
+// Stable values in [0, 1) from a seed, 8 hex chars each
+function seeded(seed: string): number[] {
+  const hex = sha256(seed);
+  const values: number[] = [];
+  for (let i = 0; i + 8 <= hex.length; i += 8) {
+    values.push(parseInt(hex.slice(i, i + 8), 16) / 0x100000000);
+  }
+  return values;
+}
+
+function clamp01(n: number) {
+  return Math.max(0, Math.min(1, n));
+}
+
+// Made-up competitors for simulated recommendation lists
+const SIMULATED_BRANDS = ['Northwind', 'Contoso', 'Globex', 'Initech', 'Umbrella', 'Hooli', 'Vandelay', 'Soylent', 'Wonka', 'Tyrell'];
+
+const SIMULATED_QUESTIONS = [
+  'What are the best brands in this category?',
+  'Which company would you recommend for a small team?',
+  'Top budget-friendly options right now',
+  'What are good alternatives to the market leader?',
+  'Which brand do experts recommend for beginners?',
+  'Most trusted companies in this space',
+  'Which option has the best customer support?',
+  'What should I buy if quality matters most?',
+  'Best choice for a large company?',
+  'Which brands are worth the money?'
+];
+
+// Squared so most brands land low, like the calibrated prompts expect
+function brandStrength(brand: string): number {
+  return seeded(`brand:${brand.trim().toLowerCase()}`)[0] ** 2;
+}
+
+/**
+ * Names listed in SIMULATE_PROVIDERS ('all' = every provider) are served by
+ * SimulatedProvider instead of the real API
+ */
+export function isSimulated(name: ProviderName): boolean {
+  const names = env.SIMULATE_PROVIDERS.split(',').map(n => n.trim()).filter(Boolean);
+  return names.includes('all') || names.includes(name);
+}
+
+/**
+ * Local stand-in for a real provider: no API key, no tokens.
+ *
+ * The breakdown is seeded by the brand (shared by all simulated providers, so
+ * they roughly agree) plus per-provider noise, and goes through the same
+ * parsing as a real answer. Latency, errors (503) and timeouts are injected
+ * at random per call from SIMULATED_* settings.
+ */
+export class SimulatedProvider implements AIProvider {
+  model = 'simulated';
+  prompts: PromptId[] = ['geo-brutal'];
+
+  constructor(public name: ProviderName) {}
+
+  isEnabled() {
+    return true;
+  }
+
+  // Latency plus injected timeouts and 503s, per SIMULATED_* settings
+  private async simulateCall() {
+    const roll = Math.random();
+    if (roll < env.SIMULATED_TIMEOUT_RATE) {
+      const timeoutMs = Number(process.env.AI_TIMEOUT_MS || 25000);
+      await sleep(timeoutMs);
+      throw new Error(`Simulated ${this.name} timeout after ${timeoutMs}ms`);
+    }
+
+    await sleep(env.SIMULATED_LATENCY_MS + Math.random() * env.SIMULATED_JITTER_MS);
+
+    if (roll < env.SIMULATED_TIMEOUT_RATE + env.SIMULATED_ERROR_RATE) {
+      throw Object.assign(new Error(`Simulated ${this.name} API error: 503 - injected failure`), { status: 503 });
+    }
+  }
+
+  async analyze(input: string, options: AnalyzeOptions = {}): Promise<ProviderResult> {
+    const prompt = renderPrompt('geo-brutal', brandVariables(input, options.context, options.ragContext), options.promptVersions?.['geo-brutal']);
+    await this.simulateCall();
+
+    const raw = JSON.stringify(this.simulate(input));
+    console.log(`🧪 Simulated ${this.name} answer for "${input}"`);
+
+    return parseProviderResult(this.name, raw, {
+      model: this.model,
+      simulated: true,
+      ...promptMeta(prompt)
+    });
+  }
+
+  /**
+   * A numbered recommendation list of made-up brands. Strong subjects show up
+   * in more answers and nearer the top, so probing metrics follow the
+   * simulated rubric score. The probe-questions prompt gets generic
+   * category questions instead.
+   */
+  async ask(question: string, options: AskOptions = {}): Promise<string> {
+    await this.simulateCall();
+
+    if (question.includes('"questions"')) {
+      return JSON.stringify({
+        category: 'simulated category',
+        questions: SIMULATED_QUESTIONS
+      });
+    }
+
+    const rolls = seeded(`${this.name}:${question.trim().toLowerCase()}`);
+    const names = [...SIMULATED_BRANDS]
+      .sort((a, b) => seeded(`${question}:${a}`)[0] - seeded(`${question}:${b}`)[0])
+      .slice(0, 5);
+
+    if (options.subject && rolls[0] < 0.15 + brandStrength(options.subject) * 0.8) {
+      const position = Math.floor((1 - brandStrength(options.subject)) * rolls[1] * names.length);
+      names.splice(position, 1, options.subject);
+    }
+
+    return [
+      'Here are some popular options:',
+      ...names.map((name, i) => `${i + 1}. **${name}** - simulated recommendation`)
+    ].join('\n');
+  }
+
+  // An answer in the real response format (GEO_RESULT_JSON_SCHEMA)
+  private simulate(brand: string) {
+    const key = brand.trim().toLowerCase();
+    const strength = brandStrength(brand);
+    const noise = seeded(`${this.name}:${key}`);
+
+    const criteria = CRITERIA.map((c, i) => {
+      const share = clamp01(strength + (noise[i] - 0.5) * 0.3);
+      return { ...c, score: Math.round(c.max * share), share };
+    });
+    const ranked = [...criteria].sort((a, b) => a.share - b.share);
+
+    return {
+      summary: `Simulated ${this.name} analysis of ${brand}: scores are derived from the brand name, not a model answer.`,
+      breakdown: Object.fromEntries(criteria.map(c => [c.field, {
+        score: c.score,
+        reason: `Simulated ${c.label}: ${c.score}/${c.max}`
+      }])),
+      critical_issues: ranked.slice(0, 3).map(c => `Weak ${c.label} (${c.score}/${c.max})`),
+      opportunities: ranked.slice(0, 2).map(c => `Improve ${c.label}`),
+      confidence: strength > 0.6 ? 'High' : strength > 0.25 ? 'Medium' : 'Low'
+    };
+  }
+}
@@ -1,13 +1,79 @@
-export type ProviderName = 'chatgpt' | 'google' | 'perplexity' | 'claude' | 'mistral';
+import type { PromptId } from './prompts.js';
+import type { CHAT_COMPLETIONS_PROVIDERS, NATIVE_PROVIDERS } from '../../../config/providers.js';
+
+// Built from config: a new chat-completions entry is a new provider name
+export type ProviderName =
+  | typeof NATIVE_PROVIDERS[number]
+  | typeof CHAT_COMPLETIONS_PROVIDERS[number]['name'];
+
+export type CriterionKey =
+  | 'aiSearchPresence'
+  | 'brandAuthority'
+  | 'contextQuality'
+  | 'competitivePosition'
+  | 'communityAuthority'
+  | 'informationRichness'
+  | 'structuredData'
+  | 'geographicVisibility';
+
+export type CriterionScore = {
+  score: number;        // 0..max for this criterion
+  max: number;
+  reason: string;
+};
+
+export type Confidence = 'High' | 'Medium' | 'Low';
+
+// A web source a provider cited for its answer (e.g. Perplexity citations)
+export type Source = {
+  url: string;
+  title?: string;
+};
 
 export type ProviderResult = {
   name: ProviderName;
-  score: number;        // 0..100
+  score: number;        // 0..100, sum of breakdown
+  breakdown: Record<CriterionKey, CriterionScore>;
+  summary: string;
+  issues: string[];
+  opportunities: string[];
+  confidence: Confidence;
+  sources?: Source[];
   meta?: Record<string, unknown>;
 };
 
+// Optional facts that pin down which entity a brand name means
+export type BrandContext = {
+  domain?: string;
+  industry?: string;
+  country?: string;
+  aliases?: string[];
+};
+
+export type AnalyzeOptions = {
+  // Prompt versions to use instead of the registry defaults (A/B experiments)
+  promptVersions?: Partial<Record<PromptId, string>>;
+  // Skip the result cache and store the fresh answer
+  forceRefresh?: boolean;
+  context?: BrandContext;
+  // Stored documents about the brand, rendered for the prompt (rag-context.ts)
+  ragContext?: string;
+  // Ids + content hashes of those documents; what the result cache keys on
+  ragKey?: string;
+};
+
+export type AskOptions = {
+  // Brand being measured. Never sent to a real provider (that would bias the
+  // answer); only lets simulated providers decide whether to mention it
+  subject?: string;
+};
+
 export interface AIProvider {
   name: ProviderName;
+  model: string;
+  prompts: PromptId[];    // Registry prompts this provider renders
   isEnabled(): boolean;
-  analyze(input: string): Promise<ProviderResult>;
-}
\ No newline at end of file
+  analyze(input: string, options?: AnalyzeOptions): Promise<ProviderResult>;
+  // Free-text answer to a question, as a user of the assistant would see it
+  ask(question: string, options?: AskOptions): Promise<string>;
+}
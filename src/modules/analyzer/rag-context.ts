@@ -0,0 +1,134 @@
+import { RagScope, contextService } from '../../services/context.service.js';
+import { env } from '../../config/env.js';
+import { normalizeInput } from './result-cache.js';
+import { sha256 } from '../../shared/hash.js';
+import type { BrandContext } from './providers/types.js';
+
+// Retrieval embeds the query over the network; never let it hold up analysis
+const RETRIEVAL_TIMEOUT_MS = 3000;
+// Don't bother squeezing in a document with less room than this left
+const MIN_TRUNCATED_TOKENS = 40;
+// Our own analysis records: a prior score in the scoring prompt would anchor the models on it
+const EXCLUDED_TYPES = ['pro-geo-analysis'];
+
+export type RagSource = {
+  id: string;
+  type: string;
+  score: number;            // Vector similarity
+  tokens: number;           // Estimated tokens this source took in the prompt
+  truncated: boolean;
+  hash: string;             // sha256 of the text used, shortened
+  timestamp?: string;
+};
+
+export type RetrievedContext = {
+  text: string;             // The numbered documents, as judged evidence
+  prompt: string;           // The {{ragContext}} prompt block
+  sources: RagSource[];
+  entries: string[];        // The block's entry for each source, same order
+  tokens: number;
+  budget: number;
+  key: string;              // Stable id of the sources used, for the result cache
+};
+
+// ~4 characters per token for English text; close enough for a budget
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+async function withTimeout<T>(op: Promise<T>, fallback: T): Promise<T> {
+  let timer: NodeJS.Timeout;
+  try {
+    return await Promise.race([
+      op,
+      new Promise<T>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('retrieval timeout')), RETRIEVAL_TIMEOUT_MS);
+      })
+    ]);
+  } catch (err) {
+    console.error('⚠️ RAG retrieval unavailable:', err.message);
+    return fallback;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Stored documents about the brand (prior analyses, uploaded brand docs,
+ * crawl results) within the caller's scope, best match first, packed into
+ * RAG_CONTEXT_TOKENS. Documents tagged with another brand are skipped. Null
+ * when nothing relevant is stored.
+ */
+export async function retrieveBrandContext(
+  brandName: string,
+  scope: RagScope,
+  context?: BrandContext
+): Promise<RetrievedContext | null> {
+  if (!contextService.isAvailable()) return null;
+
+  const query = [brandName, context?.industry, context?.domain].filter(Boolean).join(' ');
+  const results = await withTimeout(contextService.search(query, scope, env.RAG_MAX_DOCUMENTS * 2), []);
+
+  const names = [brandName, ...(context?.aliases || [])].map(normalizeInput);
+  const seen = new Set<string>();
+  const relevant = results
+    .filter(r => r.content && r.score >= env.RAG_MIN_SCORE && !EXCLUDED_TYPES.includes(String(r.metadata?.type)))
+    .filter(r => !r.metadata?.brandName || names.includes(normalizeInput(String(r.metadata.brandName))))
+    .filter(r => {
+      const key = normalizeInput(r.content);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, env.RAG_MAX_DOCUMENTS);
+
+  const budget = env.RAG_CONTEXT_TOKENS;
+  const entries: string[] = [];
+  const sources: RagSource[] = [];
+  let used = 0;
+
+  for (const doc of relevant) {
+    const type = String(doc.metadata?.type || 'document');
+    const timestamp = doc.metadata?.timestamp ? String(doc.metadata.timestamp) : undefined;
+    const header = `[${entries.length + 1}] (${type}${timestamp ? `, ${timestamp.slice(0, 10)}` : ''})`;
+    let body = doc.content.replace(/\s+/g, ' ').trim();
+    let truncated = false;
+
+    const remaining = budget - used;
+    if (estimateTokens(`${header} ${body}`) > remaining) {
+      if (remaining - estimateTokens(header) < MIN_TRUNCATED_TOKENS) break;
+      body = `${body.slice(0, (remaining - estimateTokens(header) - 1) * 4).trimEnd()}…`;
+      truncated = true;
+    }
+
+    const entry = `${header} ${body}`;
+    const tokens = estimateTokens(entry);
+    entries.push(entry);
+    sources.push({
+      id: String(doc.metadata?.originalId || doc.id),
+      type,
+      score: Math.round(doc.score * 1000) / 1000,
+      tokens,
+      truncated,
+      hash: sha256(body).slice(0, 16),
+      ...(timestamp && { timestamp })
+    });
+    used += tokens;
+    if (truncated) break;
+  }
+
+  if (entries.length === 0) return null;
+
+  const text = entries.join('\n');
+  return {
+    text,
+    prompt: `\n\nSTORED FACTS about this brand from our records (may be incomplete or out of date; use them, do not invent beyond them):\n${text}`,
+    sources,
+    entries,
+    tokens: used,
+    budget,
+    // Same documents, same content → same key, whatever their similarity scores
+    key: sha256(sources.map(s => `${s.id}:${s.hash}`).sort().join('\n'))
+  };
+}
@@ -0,0 +1,117 @@
+import type { Redis } from 'ioredis';
+import { AIProvider, AnalyzeOptions, AskOptions, BrandContext, ProviderName, ProviderResult } from './providers/types.js';
+import { PromptId, getPromptTemplate } from './providers/prompts.js';
+import { cacheHits, cacheMisses } from '../../observability/metrics.js';
+import { env } from '../../config/env.js';
+import { sha256 } from '../../shared/hash.js';
+
+// A slow or missing Redis must not hold up analysis; treat it as a miss
+const CACHE_TIMEOUT_MS = 1000;
+
+async function withTimeout<T>(op: () => Promise<T>, fallback: T): Promise<T> {
+  let timer: NodeJS.Timeout;
+  try {
+    return await Promise.race([
+      op(),
+      new Promise<T>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('cache timeout')), CACHE_TIMEOUT_MS);
+      })
+    ]);
+  } catch (err) {
+    console.error('⚠️ Result cache unavailable:', err.message);
+    return fallback;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// "  Nike  Inc " and "nike inc" are the same question
+export function normalizeInput(input: string): string {
+  return input.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Brand context in a stable shape; null when nothing was given
+export function normalizeContext(context: BrandContext = {}) {
+  const normalized = {
+    domain: context.domain ? normalizeInput(context.domain) : undefined,
+    industry: context.industry ? normalizeInput(context.industry) : undefined,
+    country: context.country ? normalizeInput(context.country) : undefined,
+    aliases: context.aliases?.length ? context.aliases.map(normalizeInput).sort() : undefined
+  };
+  return Object.values(normalized).some(v => v !== undefined) ? normalized : null;
+}
+
+/**
+ * Cache key for one provider answer: normalized input, brand context, the
+ * retrieved RAG documents (by id and content hash), provider, model and the
+ * version of every prompt the provider renders
+ */
+export function resultCacheKey(
+  input: string,
+  provider: { name: ProviderName; model: string; prompts: PromptId[] },
+  options: AnalyzeOptions = {}
+): string {
+  const prompts = [...provider.prompts].sort().map(id => {
+    const version = getPromptTemplate(id, options.promptVersions?.[id]).version;
+    return `${id}@${version}`;
+  });
+  const hash = sha256(JSON.stringify([
+    normalizeInput(input),
+    normalizeContext(options.context),
+    options.ragKey || '',
+    provider.name,
+    provider.model,
+    prompts
+  ]));
+  return `result:${provider.name}:${hash}`;
+}
+
+/**
+ * Serves a provider's answer from Redis for CACHE_TTL seconds. Misses (and
+ * `forceRefresh`) call the provider and store successful results; failures
+ * are never cached. CACHE_TTL=0 disables it.
+ */
+export class CachedProvider implements AIProvider {
+  name: ProviderName;
+  model: string;
+  prompts: PromptId[];
+
+  constructor(private inner: AIProvider, private redis: Redis) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.prompts = inner.prompts;
+  }
+
+  isEnabled() {
+    return this.inner.isEnabled();
+  }
+
+  async analyze(input: string, options: AnalyzeOptions = {}): Promise<ProviderResult> {
+    if (env.CACHE_TTL <= 0) {
+      return this.inner.analyze(input, options);
+    }
+
+    const key = resultCacheKey(input, this, options);
+
+    if (!options.forceRefresh) {
+      const cached = await withTimeout(() => this.redis.get(key), null);
+      if (cached) {
+        cacheHits.labels('provider_result').inc();
+        const result = JSON.parse(cached) as ProviderResult;
+        return { ...result, meta: { ...result.meta, cached: true } };
+      }
+    }
+    cacheMisses.labels('provider_result').inc();
+
+    const result = await this.inner.analyze(input, options);
+    const entry: ProviderResult = { ...result, meta: { ...result.meta, cachedAt: new Date().toISOString() } };
+    // Not awaited: the answer is ready, storing it must not delay the analysis
+    void withTimeout(() => this.redis.set(key, JSON.stringify(entry), 'EX', env.CACHE_TTL), undefined);
+    return result;
+  }
+
+  // Probe answers are not cached: each run should sample the provider afresh
+  ask(question: string, options?: AskOptions): Promise<string> {
+    return this.inner.ask(question, options);
+  }
+}
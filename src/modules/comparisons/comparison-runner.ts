@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../../prisma/client.js';
+import { AIProvider } from '../analyzer/providers/types.js';
+import { createJob, getJob } from '../analyzer/analysis-store.js';
+import { runMultiProviderAnalysis } from '../analyzer/pipeline.js';
+import { ComparedBrand, buildComparison } from './ranking.js';
+
+/**
+ * Run the full pipeline for the primary brand and every competitor, then
+ * store the side-by-side ranking on the comparison.
+ *
+ * Brands run one after another so a comparison never multiplies the load on
+ * each provider. Every brand gets a normal job, so progress can be followed
+ * per jobId like any other analysis. These jobs stay out of the user's
+ * dashboard stats, and competitors stay out of the user's RAG documents.
+ */
+export async function runComparison(comparisonId: string, providers: AIProvider[]) {
+  const comparison = await prisma.comparison.findUnique({ where: { id: comparisonId } });
+  if (!comparison) return;
+
+  const brands = [comparison.primaryBrand, ...comparison.competitors];
+  const jobs = brands.map(brandName => ({ brandName, jobId: randomUUID() }));
+
+  console.log(`\n⚖️ Comparison ${comparisonId}: ${brands.join(' vs ')}`);
+
+  try {
+    for (const { brandName, jobId } of jobs) {
+      await createJob(jobId, brandName, comparison.userId, { comparisonId });
+    }
+
+    const compared: ComparedBrand[] = [];
+    for (const [i, { brandName, jobId }] of jobs.entries()) {
+      // Heartbeat: a run that stops moving is stale after COMPARISON_STALE_MS
+      await prisma.comparison.update({ where: { id: comparisonId }, data: { updatedAt: new Date() } });
+      await runMultiProviderAnalysis(brandName, jobId, comparison.userId, providers, {
+        experimentKey: comparisonId,
+        tenantId: comparison.tenantId,
+        ingest: i === 0
+      });
+      const job: any = await getJob(jobId);
+      compared.push({ brandName, jobId, isPrimary: i === 0, result: job?.result });
+    }
+
+    const result = buildComparison(comparison.primaryBrand, compared);
+
+    await prisma.comparison.update({
+      where: { id: comparisonId },
+      data: {
+        status: 'completed',
+        result,
+        runs: { increment: 1 },
+        lastRunAt: new Date()
+      }
+    });
+
+    console.log(`✅ Comparison ${comparisonId} completed: ${comparison.primaryBrand} ranks #${result.overall.primaryRank ?? '-'}\n`);
+  } catch (error) {
+    console.error(`❌ Comparison ${comparisonId} failed:`, error);
+
+    await prisma.comparison.update({
+      where: { id: comparisonId },
+      data: {
+        status: 'failed',
+        result: {
+          error: 'Comparison failed',
+          primaryBrand: comparison.primaryBrand,
+          timestamp: new Date().toISOString()
+        },
+        lastRunAt: new Date()
+      }
+    }).catch(err => console.error('❌ Failed to store failed comparison:', err));
+  }
+}
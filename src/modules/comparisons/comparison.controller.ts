@@ -0,0 +1,139 @@
+import { FastifyInstance } from 'fastify';
+import { prisma } from '../../prisma/client.js';
+import { verifyToken } from '../../middleware/auth.js';
+import { resolveTenantId } from '../../plugins/tenant.js';
+import { AIProvider } from '../analyzer/providers/types.js';
+import { runComparison } from './comparison-runner.js';
+import { env } from '../../config/env.js';
+
+const MAX_COMPETITORS = 5;
+
+function toResponse(comparison: any) {
+  return {
+    id: comparison.id,
+    primaryBrand: comparison.primaryBrand,
+    competitors: comparison.competitors,
+    status: comparison.status,
+    runs: comparison.runs,
+    lastRunAt: comparison.lastRunAt ? comparison.lastRunAt.toISOString() : null,
+    createdAt: comparison.createdAt.toISOString(),
+    result: comparison.result
+  };
+}
+
+// Trimmed, without blanks, duplicates (case-insensitive) or the primary brand itself
+function normalizeCompetitors(primaryBrand: string, competitors: string[]): string[] {
+  const seen = new Set([primaryBrand.toLowerCase()]);
+  const unique: string[] = [];
+  for (const name of competitors.map(c => String(c).trim()).filter(Boolean)) {
+    if (seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    unique.push(name);
+  }
+  return unique;
+}
+
+async function findOwnComparison(request: any, reply: any) {
+  const { id } = request.params as { id: string };
+  const comparison = await prisma.comparison.findUnique({ where: { id } });
+
+  if (!comparison || comparison.userId !== request.user.userId) {
+    reply.code(404);
+    return null;
+  }
+  return comparison;
+}
+
+export default async function comparisonRoutes(
+  fastify: FastifyInstance,
+  opts: { providers: AIProvider[] }
+) {
+  const { providers } = opts;
+
+  fastify.post('/api/comparisons', { preHandler: verifyToken }, async (request: any, reply) => {
+    const { brandName, competitors } = request.body as { brandName: string; competitors: string[] };
+
+    if (!brandName || !brandName.trim()) {
+      reply.code(400);
+      return { message: 'brandName is required' };
+    }
+    if (!Array.isArray(competitors)) {
+      reply.code(400);
+      return { message: 'competitors must be an array of brand names' };
+    }
+
+    const primaryBrand = brandName.trim();
+    const unique = normalizeCompetitors(primaryBrand, competitors);
+    if (unique.length === 0 || unique.length > MAX_COMPETITORS) {
+      reply.code(400);
+      return { message: `Provide between 1 and ${MAX_COMPETITORS} competitors` };
+    }
+
+    const comparison = await prisma.comparison.create({
+      data: {
+        userId: request.user.userId,
+        tenantId: resolveTenantId(request),
+        primaryBrand,
+        competitors: unique
+      }
+    });
+
+    // Start async comparison
+    runComparison(comparison.id, providers)
+      .catch(error => console.error(`❌ Comparison ${comparison.id} crashed:`, error));
+
+    reply.code(202);
+    return {
+      ...toResponse(comparison),
+      providers: providers.map(p => p.name)
+    };
+  });
+
+  fastify.get('/api/comparisons', { preHandler: verifyToken }, async (request: any) => {
+    const comparisons = await prisma.comparison.findMany({
+      where: { userId: request.user.userId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return {
+      comparisons: comparisons.map(toResponse),
+      total: comparisons.length
+    };
+  });
+
+  fastify.get('/api/comparisons/:id', { preHandler: verifyToken }, async (request: any, reply) => {
+    const comparison = await findOwnComparison(request, reply);
+    if (!comparison) return { message: 'Comparison not found' };
+
+    return toResponse(comparison);
+  });
+
+  // Re-run with the same brands; the previous ranking is replaced when it finishes
+  fastify.post('/api/comparisons/:id/rerun', { preHandler: verifyToken }, async (request: any, reply) => {
+    const comparison = await findOwnComparison(request, reply);
+    if (!comparison) return { message: 'Comparison not found' };
+
+    // Conditional update so two concurrent re-runs can't both start. A run
+    // 'processing' with no progress for COMPARISON_STALE_MS died with its process.
+    const { count } = await prisma.comparison.updateMany({
+      where: {
+        id: comparison.id,
+        OR: [
+          { status: { not: 'processing' } },
+          { updatedAt: { lt: new Date(Date.now() - env.COMPARISON_STALE_MS) } }
+        ]
+      },
+      data: { status: 'processing' }
+    });
+    if (count === 0) {
+      reply.code(409);
+      return { message: 'Comparison is already running' };
+    }
+
+    runComparison(comparison.id, providers)
+      .catch(error => console.error(`❌ Comparison ${comparison.id} crashed:`, error));
+
+    reply.code(202);
+    return toResponse({ ...comparison, status: 'processing' });
+  });
+}
@@ -0,0 +1,122 @@
+import { CRITERIA } from '../analyzer/providers/result-schema.js';
+import { CriterionKey } from '../analyzer/providers/types.js';
+
+// One brand's finished analysis within a comparison
+export type ComparedBrand = {
+  brandName: string;
+  jobId: string;
+  isPrimary: boolean;
+  result: any;          // stored pipeline result; has `error` when the analysis failed
+};
+
+export type RankEntry = {
+  rank: number;
+  brandName: string;
+  value: number;
+  isPrimary: boolean;
+};
+
+// leads / trails = primary brand vs. the best competitor
+export type Standing = 'leads' | 'trails' | 'ties' | 'unknown';
+
+export type Ranking = {
+  ranking: RankEntry[];
+  primaryRank: number | null;
+  gap: number | null;   // primary minus best competitor
+  standing: Standing;
+};
+
+export type ComparisonResult = {
+  primaryBrand: string;
+  overall: Ranking & { jobIds: Record<string, string> };
+  criteria: Record<CriterionKey, Ranking & { label: string; max: number }>;
+  providers: Record<string, Ranking>;
+  leads: string[];      // criterion labels where the primary brand leads
+  trails: string[];
+  failed: string[];     // brands whose analysis failed and are left out
+  timestamp: string;
+};
+
+/**
+ * Rank brands by value (highest first, ties share a rank) and place the
+ * primary brand against its best competitor
+ */
+export function rankBrands(values: { brandName: string; isPrimary: boolean; value: number | undefined }[]): Ranking {
+  const scored = values.filter((v): v is typeof v & { value: number } => typeof v.value === 'number');
+  const sorted = [...scored].sort((a, b) => b.value - a.value);
+
+  const ranking: RankEntry[] = sorted.map(v => ({
+    rank: sorted.findIndex(o => o.value === v.value) + 1,
+    brandName: v.brandName,
+    value: v.value,
+    isPrimary: v.isPrimary
+  }));
+
+  const primary = ranking.find(r => r.isPrimary);
+  const competitors = ranking.filter(r => !r.isPrimary);
+
+  if (!primary || competitors.length === 0) {
+    return { ranking, primaryRank: primary?.rank ?? null, gap: null, standing: 'unknown' };
+  }
+
+  const gap = Math.round((primary.value - competitors[0].value) * 10) / 10;
+  return {
+    ranking,
+    primaryRank: primary.rank,
+    gap,
+    standing: gap > 0 ? 'leads' : gap < 0 ? 'trails' : 'ties'
+  };
+}
+
+/**
+ * Side-by-side ranking overall, per criterion (cross-provider median) and
+ * per provider
+ */
+export function buildComparison(primaryBrand: string, brands: ComparedBrand[]): ComparisonResult {
+  const ok = brands.filter(b => b.result && !b.result.error);
+
+  const overall = rankBrands(ok.map(b => ({
+    brandName: b.brandName,
+    isPrimary: b.isPrimary,
+    value: b.result.score
+  })));
+
+  const criteria = {} as ComparisonResult['criteria'];
+  for (const c of CRITERIA) {
+    criteria[c.key] = {
+      label: c.label,
+      max: c.max,
+      ...rankBrands(ok.map(b => ({
+        brandName: b.brandName,
+        isPrimary: b.isPrimary,
+        value: b.result.breakdown?.[c.key]?.median
+      })))
+    };
+  }
+
+  const providerNames = [...new Set(ok.flatMap(b => (b.result.providers || []).map((p: any) => p.name as string)))];
+  const providers: Record<string, Ranking> = {};
+  for (const name of providerNames) {
+    providers[name] = rankBrands(ok.map(b => ({
+      brandName: b.brandName,
+      isPrimary: b.isPrimary,
+      value: (b.result.providers || []).find((p: any) => p.name === name)?.score
+    })));
+  }
+
+  const criteriaList = Object.values(criteria);
+
+  return {
+    primaryBrand,
+    overall: {
+      ...overall,
+      jobIds: Object.fromEntries(brands.map(b => [b.brandName, b.jobId]))
+    },
+    criteria,
+    providers,
+    leads: criteriaList.filter(c => c.standing === 'leads').map(c => c.label),
+    trails: criteriaList.filter(c => c.standing === 'trails').map(c => c.label),
+    failed: brands.filter(b => !ok.includes(b)).map(b => b.brandName),
+    timestamp: new Date().toISOString()
+  };
+}
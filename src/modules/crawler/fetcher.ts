@@ -0,0 +1,170 @@
+import { BlockList, LookupFunction, isIP } from 'net';
+import { LookupAddress, lookup } from 'dns';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { Agent, fetch } from 'undici';
+import { env } from '../../config/env.js';
+
+export type FetchedPage = {
+  url: string;            // Final URL after redirects
+  status: number;
+  contentType: string;
+  body: string;
+};
+
+/**
+ * Where the crawler gets pages from. Returns null when the page could not be
+ * fetched at all (DNS, network, timeout), a page with its status otherwise.
+ */
+export interface SiteFetcher {
+  fetch(url: string): Promise<FetchedPage | null>;
+}
+
+const USER_AGENT = 'BrainIndexBot/1.0 (+https://brain-index.com/bot)';
+const MAX_REDIRECTS = 3;
+const MAX_BYTES = 2 * 1024 * 1024;
+
+// Loopback, private, link-local and other non-public ranges
+const PRIVATE_RANGES = new BlockList();
+PRIVATE_RANGES.addSubnet('0.0.0.0', 8);
+PRIVATE_RANGES.addSubnet('10.0.0.0', 8);
+PRIVATE_RANGES.addSubnet('100.64.0.0', 10);
+PRIVATE_RANGES.addSubnet('127.0.0.0', 8);
+PRIVATE_RANGES.addSubnet('169.254.0.0', 16);
+PRIVATE_RANGES.addSubnet('172.16.0.0', 12);
+PRIVATE_RANGES.addSubnet('192.168.0.0', 16);
+PRIVATE_RANGES.addSubnet('::', 128, 'ipv6');
+PRIVATE_RANGES.addSubnet('::1', 128, 'ipv6');
+PRIVATE_RANGES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_RANGES.addSubnet('fe80::', 10, 'ipv6');
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return PRIVATE_RANGES.check(mapped[1], 'ipv4');
+  return PRIVATE_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Brand domains come from users: never let them point the crawler inward.
+ * Runs as the socket's DNS lookup, so the address checked is the address
+ * connected to; a second resolution (DNS rebinding) can't swap it.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+    if (err) return callback(err, '', 0);
+    if (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address))) {
+      return callback(new Error(`Refusing to crawl ${hostname}: resolves to a private address`), '', 0);
+    }
+    if (options.all) return (callback as any)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+async function readCapped(res: { body: ReadableStream<Uint8Array> | null }): Promise<string> {
+  if (!res.body) return '';
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < MAX_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel().catch(() => {});
+  return Buffer.concat(chunks).subarray(0, MAX_BYTES).toString('utf8');
+}
+
+/**
+ * Live HTTP(S). Public hosts only (checked at connect time), redirects
+ * followed by hand (and re-checked), bodies capped at 2 MB.
+ */
+export class HttpFetcher implements SiteFetcher {
+  constructor(private timeoutMs = env.CRAWLER_TIMEOUT_MS) {}
+
+  async fetch(url: string): Promise<FetchedPage | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      let current = new URL(url);
+      for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        if (current.protocol !== 'https:' && current.protocol !== 'http:') return null;
+        // IP literals skip DNS, and so the lookup check
+        if (isIP(current.hostname.replace(/^\[|\]$/g, ''))) throw new Error(`Refusing to crawl IP address ${current.hostname}`);
+
+        const res = await fetch(current, {
+          headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml,text/plain,*/*' },
+          redirect: 'manual',
+          signal: controller.signal,
+          dispatcher: publicAgent
+        });
+
+        const location = res.headers.get('location');
+        if (res.status >= 300 && res.status < 400 && location) {
+          current = new URL(location, current);
+          continue;
+        }
+
+        return {
+          url: current.toString(),
+          status: res.status,
+          contentType: res.headers.get('content-type') || '',
+          body: await readCapped(res)
+        };
+      }
+      return null;
+    } catch (error) {
+      // fetch() wraps connect errors (our lookup refusal included) in `cause`
+      console.error(`⚠️ Crawler could not fetch ${url}:`, error.cause?.message || error.message);
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.txt': 'text/plain',
+  '.xml': 'application/xml',
+  '.json': 'application/json'
+};
+
+/**
+ * Serves sites from disk: <dir>/<host>/<path>. `/` maps to index.html and
+ * extensionless paths to <path>.html or <path>/index.html; anything missing
+ * is a 404. For local development and tests without network.
+ */
+export class FixtureFetcher implements SiteFetcher {
+  constructor(private dir: string) {}
+
+  async fetch(url: string): Promise<FetchedPage | null> {
+    const { hostname, pathname } = new URL(url);
+    const root = path.resolve(this.dir, hostname);
+    const base = path.resolve(root, '.' + decodeURIComponent(pathname));
+    if (base !== root && !base.startsWith(root + path.sep)) return null;
+
+    // Extension of the URL path, not of `base`: hosts like acme.com have one too
+    const candidates = path.posix.extname(pathname)
+      ? [base]
+      : [path.join(base, 'index.html'), `${base}.html`];
+
+    for (const file of candidates) {
+      try {
+        const body = await readFile(file, 'utf8');
+        return { url, status: 200, contentType: CONTENT_TYPES[path.extname(file)] || 'text/plain', body };
+      } catch (error) {
+        if (error.code !== 'ENOENT' && error.code !== 'EISDIR') throw error;
+      }
+    }
+    return { url, status: 404, contentType: 'text/plain', body: '' };
+  }
+}
+
+// CRAWLER_FIXTURES_DIR switches the whole app to fixture sites
+export function defaultFetcher(): SiteFetcher {
+  return env.CRAWLER_FIXTURES_DIR ? new FixtureFetcher(env.CRAWLER_FIXTURES_DIR) : new HttpFetcher();
+}
@@ -0,0 +1,174 @@
+// Deterministic AI-readiness signals extracted from raw page text. Regex
+// based on purpose: we only need a handful of well-delimited tags.
+
+// AI crawlers that decide whether a site can end up in model answers
+export const AI_CRAWLERS = [
+  'GPTBot',
+  'OAI-SearchBot',
+  'ChatGPT-User',
+  'Google-Extended',
+  'ClaudeBot',
+  'anthropic-ai',
+  'PerplexityBot',
+  'CCBot',
+  'Applebot-Extended'
+];
+
+export type CrawlerAccess = 'allowed' | 'blocked';
+
+export function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function attributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3]);
+  }
+  return attrs;
+}
+
+function collectTypes(node: any, types: Set<string>) {
+  if (Array.isArray(node)) {
+    node.forEach(n => collectTypes(n, types));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  const type = node['@type'];
+  for (const t of Array.isArray(type) ? type : [type]) {
+    if (typeof t === 'string') types.add(t);
+  }
+  for (const value of Object.values(node)) {
+    if (value && typeof value === 'object') collectTypes(value, types);
+  }
+}
+
+/**
+ * schema.org types declared in <script type="application/ld+json"> blocks
+ */
+export function extractJsonLd(html: string): { blocks: number; invalidBlocks: number; types: string[] } {
+  const types = new Set<string>();
+  let blocks = 0;
+  let invalidBlocks = 0;
+
+  const re = /<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  for (const m of html.matchAll(re)) {
+    blocks++;
+    try {
+      collectTypes(JSON.parse(m[1].trim()), types);
+    } catch {
+      invalidBlocks++;
+    }
+  }
+
+  return { blocks, invalidBlocks, types: [...types].sort() };
+}
+
+/**
+ * og:* meta tags (property= or name=), e.g. { 'og:title': 'Acme' }
+ */
+export function extractOpenGraph(html: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const m of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attrs = attributes(m[0]);
+    const key = (attrs.property || attrs.name || '').toLowerCase();
+    if (key.startsWith('og:') && attrs.content && !(key in tags)) {
+      tags[key] = attrs.content.trim();
+    }
+  }
+  return tags;
+}
+
+/**
+ * Same-site links from a page, resolved against its URL
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const base = new URL(pageUrl);
+  const links = new Set<string>();
+  for (const m of html.matchAll(/<a\b[^>]*>/gi)) {
+    const href = attributes(m[0]).href;
+    if (!href) continue;
+    try {
+      const url = new URL(href, base);
+      if (url.hostname.replace(/^www\./, '') !== base.hostname.replace(/^www\./, '')) continue;
+      url.hash = '';
+      links.add(url.toString());
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+  return [...links];
+}
+
+type RobotsGroup = { agents: string[]; rules: { allow: boolean; path: string }[] };
+
+function parseRobotsGroups(robotsTxt: string): { groups: RobotsGroup[]; sitemaps: string[] } {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of robotsTxt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const m = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const field = m[1].toLowerCase();
+    const value = m[2].trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      current.rules.push({ allow: field === 'allow', path: value });
+    }
+    lastWasAgent = false;
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Whether each AI crawler may fetch the homepage. A bot follows its own
+ * User-agent group if there is one, otherwise `*`; the longest matching rule
+ * wins, and Allow wins ties.
+ */
+export function parseRobots(robotsTxt: string): { aiCrawlers: Record<string, CrawlerAccess>; sitemaps: string[] } {
+  const { groups, sitemaps } = parseRobotsGroups(robotsTxt);
+  const aiCrawlers: Record<string, CrawlerAccess> = {};
+
+  for (const bot of AI_CRAWLERS) {
+    const own = groups.filter(g => g.agents.includes(bot.toLowerCase()));
+    const applicable = own.length > 0 ? own : groups.filter(g => g.agents.includes('*'));
+    const rules = applicable
+      .flatMap(g => g.rules)
+      .filter(r => r.path !== '' && '/'.startsWith(r.path.replace(/\*$/, '').replace(/\$$/, '')));
+
+    const best = rules.sort((a, b) => b.path.length - a.path.length || Number(b.allow) - Number(a.allow))[0];
+    aiCrawlers[bot] = best && !best.allow ? 'blocked' : 'allowed';
+  }
+
+  return { aiCrawlers, sitemaps };
+}
+
+/**
+ * Number of <loc> entries in a sitemap or sitemap index, null if the body is
+ * not a sitemap
+ */
+export function countSitemapUrls(xml: string): number | null {
+  if (!/<(urlset|sitemapindex)\b/i.test(xml)) return null;
+  return (xml.match(/<loc>/gi) || []).length;
+}
@@ -0,0 +1,185 @@
+import { ProviderResult } from '../analyzer/providers/types.js';
+import { FetchedPage, SiteFetcher, defaultFetcher } from './fetcher.js';
+import {
+  CrawlerAccess,
+  countSitemapUrls,
+  extractJsonLd,
+  extractLinks,
+  extractOpenGraph,
+  parseRobots
+} from './signals.js';
+
+// Pages besides the homepage worth checking for schema.org markup
+const KEY_PAGE_PATTERN = /\/(about|company|products?|services?|pricing|faq|contact)(\/|$)/i;
+const MAX_KEY_PAGES = 3;
+
+// Entity types that tell an AI who the brand is
+const ENTITY_TYPES = ['Organization', 'Corporation', 'LocalBusiness', 'Brand', 'OnlineStore', 'WebSite'];
+// Types that describe what the brand offers or answers
+const CONTENT_TYPES = ['Product', 'Service', 'Offer', 'FAQPage', 'Article', 'HowTo', 'Review', 'AggregateRating'];
+
+export const STRUCTURED_DATA_MAX = 8;
+
+export type SiteAudit = {
+  domain: string;
+  reachable: boolean;
+  pages: { url: string; status: number; jsonLdTypes: string[] }[];
+  jsonLd: { present: boolean; types: string[]; invalidBlocks: number };
+  openGraph: { present: boolean; tags: Record<string, string> };
+  robots: { present: boolean; aiCrawlers: Record<string, CrawlerAccess> };
+  llmsTxt: { present: boolean; bytes: number };
+  sitemap: { present: boolean; url: string | null; urls: number };
+  structuredData: {
+    score: number;                        // 0..STRUCTURED_DATA_MAX
+    max: number;
+    points: Record<string, number>;
+    reason: string;
+  };
+  auditedAt: string;
+};
+
+const ok = (page: FetchedPage | null): page is FetchedPage => !!page && page.status >= 200 && page.status < 300;
+
+const isHtml = (page: FetchedPage) => /html/i.test(page.contentType) || /^\s*</.test(page.body);
+
+/**
+ * Points for the Structured Data criterion (0-8), from the audit signals:
+ * JSON-LD up to 4, OpenGraph, AI crawler access, llms.txt and sitemap 1 each
+ */
+export function scoreStructuredData(audit: Omit<SiteAudit, 'structuredData'>): SiteAudit['structuredData'] {
+  const types = audit.jsonLd.types;
+  const ogComplete = ['og:title', 'og:description', 'og:image'].every(t => audit.openGraph.tags[t]);
+  const blocked = Object.entries(audit.robots.aiCrawlers).filter(([, access]) => access === 'blocked').map(([bot]) => bot);
+
+  const points: Record<string, number> = {
+    jsonLd: audit.jsonLd.present ? 2 : 0,
+    entityMarkup: types.some(t => ENTITY_TYPES.includes(t)) ? 1 : 0,
+    contentMarkup: types.some(t => CONTENT_TYPES.includes(t)) ? 1 : 0,
+    openGraph: ogComplete ? 1 : 0,
+    aiCrawlers: blocked.length === 0 ? 1 : 0,
+    llmsTxt: audit.llmsTxt.present ? 1 : 0,
+    sitemap: audit.sitemap.present ? 1 : 0
+  };
+  const score = Object.values(points).reduce((sum, p) => sum + p, 0);
+
+  const found: string[] = [];
+  const missing: string[] = [];
+  const check = (present: boolean, label: string) => (present ? found : missing).push(label);
+  check(audit.jsonLd.present, audit.jsonLd.present ? `JSON-LD (${types.join(', ')})` : 'JSON-LD');
+  check(ogComplete, 'OpenGraph');
+  check(audit.llmsTxt.present, 'llms.txt');
+  check(audit.sitemap.present, 'sitemap');
+
+  const reason = [
+    found.length > 0 && `Found: ${found.join(', ')}.`,
+    missing.length > 0 && `Missing: ${missing.join(', ')}.`,
+    blocked.length > 0 && `robots.txt blocks ${blocked.join(', ')}.`
+  ].filter(Boolean).join(' ');
+
+  return { score, max: STRUCTURED_DATA_MAX, points, reason: `Crawled ${audit.domain}. ${reason}` };
+}
+
+/**
+ * Crawl a brand's site: homepage, up to 3 key pages linked from it,
+ * robots.txt, llms.txt and the sitemap
+ */
+export async function auditSite(domain: string, fetcher: SiteFetcher = defaultFetcher()): Promise<SiteAudit> {
+  const origin = `https://${domain}`;
+
+  const [home, robotsPage, llmsPage] = await Promise.all([
+    fetcher.fetch(`${origin}/`),
+    fetcher.fetch(`${origin}/robots.txt`),
+    fetcher.fetch(`${origin}/llms.txt`)
+  ]);
+
+  const reachable = ok(home);
+  const keyPages = reachable
+    ? extractLinks(home.body, home.url).filter(url => KEY_PAGE_PATTERN.test(new URL(url).pathname)).slice(0, MAX_KEY_PAGES)
+    : [];
+  const pages = [home, ...(await Promise.all(keyPages.map(url => fetcher.fetch(url))))].filter(ok).filter(isHtml);
+
+  const jsonLdTypes = new Set<string>();
+  let invalidBlocks = 0;
+  const pageSummaries = pages.map(page => {
+    const jsonLd = extractJsonLd(page.body);
+    jsonLd.types.forEach(t => jsonLdTypes.add(t));
+    invalidBlocks += jsonLd.invalidBlocks;
+    return { url: page.url, status: page.status, jsonLdTypes: jsonLd.types };
+  });
+
+  const robotsPresent = ok(robotsPage) && !isHtml(robotsPage);
+  const robots = parseRobots(robotsPresent ? robotsPage.body : '');
+
+  // First sitemap that parses: the ones robots.txt declares, then the default location
+  const sitemapUrls = [...robots.sitemaps.slice(0, 2), `${origin}/sitemap.xml`];
+  let sitemap: SiteAudit['sitemap'] = { present: false, url: null, urls: 0 };
+  for (const url of sitemapUrls) {
+    const page = await fetcher.fetch(url);
+    const count = ok(page) ? countSitemapUrls(page.body) : null;
+    if (count !== null) {
+      sitemap = { present: true, url, urls: count };
+      break;
+    }
+  }
+
+  const llmsPresent = ok(llmsPage) && !isHtml(llmsPage) && llmsPage.body.trim().length > 0;
+  const ogTags = reachable ? extractOpenGraph(home.body) : {};
+
+  const audit = {
+    domain,
+    reachable,
+    pages: pageSummaries,
+    jsonLd: { present: jsonLdTypes.size > 0, types: [...jsonLdTypes].sort(), invalidBlocks },
+    openGraph: { present: Object.keys(ogTags).length > 0, tags: ogTags },
+    robots: { present: robotsPresent, aiCrawlers: robots.aiCrawlers },
+    llmsTxt: { present: llmsPresent, bytes: llmsPresent ? Buffer.byteLength(llmsPage.body) : 0 },
+    sitemap,
+    auditedAt: new Date().toISOString()
+  };
+
+  return { ...audit, structuredData: scoreStructuredData(audit) };
+}
+
+/**
+ * Replace a provider's Structured Data guess with the crawled score and
+ * adjust its total to match
+ */
+export function applySiteAudit(result: ProviderResult, audit: SiteAudit): ProviderResult {
+  const previous = result.breakdown.structuredData;
+  const { score, max, reason } = audit.structuredData;
+
+  return {
+    ...result,
+    score: Math.max(0, Math.min(100, result.score - previous.score + score)),
+    breakdown: { ...result.breakdown, structuredData: { score, max, reason } },
+    meta: { ...result.meta, llmStructuredData: previous.score }
+  };
+}
+
+/**
+ * The audit as plain statements of fact, for use next to RAG context in
+ * the prompt
+ */
+export function describeSiteAudit(audit: SiteAudit): string {
+  if (!audit.reachable) return `The website ${audit.domain} could not be crawled.`;
+
+  const blocked = Object.entries(audit.robots.aiCrawlers).filter(([, access]) => access === 'blocked').map(([bot]) => bot);
+  const og = audit.openGraph.tags;
+
+  return [
+    `Crawled website ${audit.domain} on ${audit.auditedAt.slice(0, 10)} (${audit.pages.length} pages).`,
+    audit.jsonLd.present
+      ? `The site has schema.org JSON-LD markup of types: ${audit.jsonLd.types.join(', ')}.`
+      : 'The site has no schema.org JSON-LD markup.',
+    audit.openGraph.present
+      ? `OpenGraph tags are present${og['og:title'] ? `, title "${og['og:title']}"` : ''}${og['og:description'] ? `, description "${og['og:description']}"` : ''}.`
+      : 'The site has no OpenGraph tags.',
+    !audit.robots.present
+      ? 'The site has no robots.txt.'
+      : blocked.length > 0
+        ? `robots.txt blocks these AI crawlers: ${blocked.join(', ')}.`
+        : 'robots.txt allows all major AI crawlers.',
+    audit.llmsTxt.present ? 'The site publishes an llms.txt file.' : 'The site has no llms.txt file.',
+    audit.sitemap.present ? `The sitemap lists ${audit.sitemap.urls} URLs.` : 'No sitemap was found.'
+  ].join('\n');
+}
@@ -0,0 +1,68 @@
+import { contextService } from '../../services/context.service.js';
+import { sha256 } from '../../shared/hash.js';
+import { env } from '../../config/env.js';
+import { DocumentFormat, chunkText, toPlainText } from './chunker.js';
+
+export const DOCUMENT_KINDS = ['document', 'product-sheet', 'press-release'] as const;
+export type DocumentKind = typeof DOCUMENT_KINDS[number];
+// RAG `type` of uploaded chunks, by kind
+export const BRAND_DOCUMENT_TYPES = ['brand-document', 'product-sheet', 'press-release'];
+
+export type PreparedDocument = {
+  text: string;
+  contentHash: string;        // sha256 of the extracted text: reformatting alone is not a new document
+  chunks: string[];
+};
+
+type StoredDocument = {
+  id: string;
+  tenantId: string;
+  userId: string;
+  brandName: string;
+  title: string;
+  kind: string;
+  publishedAt: Date | null;
+  updatedAt: Date;
+};
+
+export function prepareDocument(content: string, format: DocumentFormat): PreparedDocument {
+  const text = toPlainText(content, format);
+  return {
+    text,
+    contentHash: sha256(text),
+    chunks: text ? chunkText(text, env.DOC_CHUNK_TOKENS, env.DOC_CHUNK_OVERLAP) : []
+  };
+}
+
+/**
+ * Embed a document's chunks into the RAG store, tagged with the brand so
+ * analyses of that brand retrieve them. Chunk ids are stable per content, so
+ * storing the same version again replaces it. False when nothing was stored.
+ */
+export async function storeChunks(doc: StoredDocument, prepared: PreparedDocument): Promise<boolean> {
+  const stored = await contextService.ingestDocuments(prepared.chunks.map((chunk, index) => ({
+    id: `brand-doc-${doc.id}-${prepared.contentHash.slice(0, 12)}-${index}`,
+    content: `${doc.title}\n${chunk}`,
+    metadata: {
+      type: doc.kind === 'document' ? 'brand-document' : doc.kind,
+      brandName: doc.brandName,
+      documentId: doc.id,
+      title: doc.title,
+      contentHash: prepared.contentHash,
+      chunk: index,
+      chunks: prepared.chunks.length,
+      timestamp: (doc.publishedAt || doc.updatedAt).toISOString()
+    }
+  })), { tenantId: doc.tenantId, userId: doc.userId });
+  return stored === prepared.chunks.length;
+}
+
+// All chunks of a document, or only those of one version of its content
+export function deleteChunks(doc: Pick<StoredDocument, 'id' | 'tenantId' | 'userId'>, contentHash?: string): Promise<boolean> {
+  return contextService.deleteDocuments({
+    tenantId: doc.tenantId,
+    userId: doc.userId,
+    documentId: doc.id,
+    ...(contentHash && { contentHash })
+  });
+}
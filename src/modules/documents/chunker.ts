@@ -0,0 +1,89 @@
+import { decodeEntities } from '../crawler/signals.js';
+import { estimateTokens } from '../analyzer/rag-context.js';
+
+export const DOCUMENT_FORMATS = ['markdown', 'text', 'html'] as const;
+export type DocumentFormat = typeof DOCUMENT_FORMATS[number];
+
+const BLOCK_TAGS = /<\/?(p|div|section|article|header|footer|main|aside|h[1-6]|li|ul|ol|tr|table|blockquote|pre|br|hr)\b[^>]*>/gi;
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(BLOCK_TAGS, '\n\n')
+      .replace(/<[^>]+>/g, ' ')
+  ).replace(/&nbsp;|&#160;/g, ' ');
+}
+
+// Keeps the words, drops the markup: link and image text stay, URLs go
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+    .replace(/(\*\*|__|`)/g, '');
+}
+
+/**
+ * The readable text of an upload: paragraphs separated by blank lines,
+ * whitespace inside them collapsed
+ */
+export function toPlainText(content: string, format: DocumentFormat): string {
+  const text = format === 'html' ? htmlToText(content) : format === 'markdown' ? markdownToText(content) : content;
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/[ \t]*\n[ \t]*/g, ' ').replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// Paragraphs, and the sentences (or hard slices) of any too long to fit a chunk
+function units(text: string, size: number): string[] {
+  const maxChars = size * 4;
+  return text.split('\n\n').flatMap(paragraph => {
+    if (estimateTokens(paragraph) <= size) return [paragraph];
+    return paragraph.split(/(?<=[.!?])\s+/).flatMap(sentence => {
+      const slices: string[] = [];
+      for (let i = 0; i < sentence.length; i += maxChars) slices.push(sentence.slice(i, i + maxChars));
+      return slices;
+    });
+  });
+}
+
+// The last ~`tokens` of a chunk, starting on a word
+function tail(chunk: string, tokens: number): string {
+  if (tokens <= 0 || estimateTokens(chunk) <= tokens) return tokens > 0 ? chunk : '';
+  const cut = chunk.slice(-tokens * 4);
+  const space = cut.indexOf(' ');
+  return space >= 0 ? cut.slice(space + 1) : cut;
+}
+
+/**
+ * Split text into chunks of about `size` tokens on paragraph, then sentence
+ * boundaries. Each chunk after the first starts with the last ~`overlap`
+ * tokens of the one before, so a fact cut at a boundary is whole in one of them.
+ */
+export function chunkText(text: string, size: number, overlap: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  let fresh = false;            // current holds more than the carried-over overlap
+
+  for (const unit of units(text, size)) {
+    const joined = current ? `${current}\n\n${unit}` : unit;
+    if (fresh && estimateTokens(joined) > size) {
+      chunks.push(current);
+      const carried = tail(current, Math.min(overlap, Math.floor(size / 2)));
+      current = carried ? `${carried}\n\n${unit}` : unit;
+    } else {
+      current = joined;
+    }
+    fresh = true;
+  }
+  if (fresh) chunks.push(current);
+
+  return [...new Set(chunks)];
+}
@@ -0,0 +1,258 @@
+import { FastifyInstance } from 'fastify';
+import { prisma } from '../../prisma/client.js';
+import { verifyAdmin, verifyToken } from '../../middleware/auth.js';
+import { resolveTenantId } from '../../plugins/tenant.js';
+import { contextService } from '../../services/context.service.js';
+import { DOCUMENT_FORMATS, DocumentFormat } from './chunker.js';
+import { DOCUMENT_KINDS, DocumentKind, deleteChunks, prepareDocument, storeChunks } from './brand-documents.js';
+
+const MAX_CONTENT_BYTES = 512 * 1024;
+const MAX_TITLE_LENGTH = 200;
+
+type DocumentBody = {
+  brandName?: string;
+  title?: string;
+  kind?: DocumentKind;
+  format?: DocumentFormat;
+  content?: string;
+  publishedAt?: string | null;
+};
+
+function toResponse(doc: any) {
+  return {
+    id: doc.id,
+    brandName: doc.brandName,
+    title: doc.title,
+    kind: doc.kind,
+    format: doc.format,
+    contentHash: doc.contentHash,
+    chunks: doc.chunks,
+    bytes: Buffer.byteLength(doc.content),
+    publishedAt: doc.publishedAt ? doc.publishedAt.toISOString() : null,
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString()
+  };
+}
+
+// Problems with the fields that are present; null when they are fine
+function validate(body: DocumentBody): string | null {
+  if (body.title !== undefined && (typeof body.title !== 'string' || !body.title.trim() || body.title.length > MAX_TITLE_LENGTH)) {
+    return `title must be 1-${MAX_TITLE_LENGTH} characters`;
+  }
+  if (body.kind !== undefined && !DOCUMENT_KINDS.includes(body.kind)) {
+    return `kind must be one of: ${DOCUMENT_KINDS.join(', ')}`;
+  }
+  if (body.format !== undefined && !DOCUMENT_FORMATS.includes(body.format)) {
+    return `format must be one of: ${DOCUMENT_FORMATS.join(', ')}`;
+  }
+  if (body.content !== undefined && (typeof body.content !== 'string' || Buffer.byteLength(body.content) > MAX_CONTENT_BYTES)) {
+    return `content must be text of at most ${MAX_CONTENT_BYTES / 1024} KB`;
+  }
+  if (body.publishedAt && isNaN(Date.parse(body.publishedAt))) {
+    return 'publishedAt must be an ISO date';
+  }
+  return null;
+}
+
+// Prisma's unique constraint violation: here, same tenant + user + brand + content
+const isUniqueViolation = (error: any) => error?.code === 'P2002';
+
+// Documents are only visible to their owner, within the tenant they were uploaded to
+async function findOwnDocument(request: any, reply: any) {
+  const { id } = request.params as { id: string };
+  const doc = await prisma.brandDocument.findUnique({ where: { id } });
+
+  if (!doc || doc.userId !== request.user.userId || doc.tenantId !== resolveTenantId(request)) {
+    reply.code(404);
+    return null;
+  }
+  return doc;
+}
+
+export default async function documentRoutes(fastify: FastifyInstance) {
+  fastify.post('/api/brand-documents', { preHandler: verifyToken }, async (request: any, reply) => {
+    const body = (request.body || {}) as DocumentBody;
+    const { brandName, title, kind = 'document', format = 'text', content, publishedAt } = body;
+
+    if (!brandName || !brandName.trim() || typeof content !== 'string' || title === undefined) {
+      reply.code(400);
+      return { message: 'brandName, title and content are required' };
+    }
+    const invalid = validate(body);
+    if (invalid) {
+      reply.code(400);
+      return { message: invalid };
+    }
+
+    const prepared = prepareDocument(content, format);
+    if (!prepared.text) {
+      reply.code(400);
+      return { message: 'content has no text' };
+    }
+    if (!contextService.isAvailable()) {
+      reply.code(503);
+      return { message: 'Document storage is temporarily unavailable' };
+    }
+
+    // The same text uploaded again for the brand is the document we already
+    // have. The unique constraint decides, so concurrent uploads can't both create it.
+    const owner = { tenantId: resolveTenantId(request), userId: request.user.userId, brandName: brandName.trim() };
+    let doc;
+    try {
+      doc = await prisma.brandDocument.create({
+        data: {
+          ...owner,
+          title: title.trim(),
+          kind,
+          format,
+          content,
+          contentHash: prepared.contentHash,
+          chunks: prepared.chunks.length,
+          publishedAt: publishedAt ? new Date(publishedAt) : null
+        }
+      });
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      const existing = await prisma.brandDocument.findUnique({
+        where: { tenantId_userId_brandName_contentHash: { ...owner, contentHash: prepared.contentHash } }
+      });
+      if (!existing) throw error;
+      return { ...toResponse(existing), duplicate: true };
+    }
+
+    if (!(await storeChunks(doc, prepared))) {
+      await deleteChunks(doc);
+      await prisma.brandDocument.delete({ where: { id: doc.id } });
+      reply.code(503);
+      return { message: 'Document storage is temporarily unavailable' };
+    }
+
+    console.log(`📄 Brand document stored: ${doc.brandName} / ${doc.title} (${doc.chunks} chunks)`);
+
+    reply.code(201);
+    return toResponse(doc);
+  });
+
+  fastify.get('/api/brand-documents', { preHandler: verifyToken }, async (request: any) => {
+    const { brandName } = request.query as { brandName?: string };
+    const documents = await prisma.brandDocument.findMany({
+      where: {
+        userId: request.user.userId,
+        tenantId: resolveTenantId(request),
+        ...(brandName && { brandName: brandName.trim() })
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return {
+      documents: documents.map(toResponse),
+      total: documents.length
+    };
+  });
+
+  fastify.get('/api/brand-documents/:id', { preHandler: verifyToken }, async (request: any, reply) => {
+    const doc = await findOwnDocument(request, reply);
+    if (!doc) return { message: 'Document not found' };
+
+    return { ...toResponse(doc), content: doc.content };
+  });
+
+  // Replaces the fields given; the chunks are rebuilt from the result
+  fastify.put('/api/brand-documents/:id', { preHandler: verifyToken }, async (request: any, reply) => {
+    const doc = await findOwnDocument(request, reply);
+    if (!doc) return { message: 'Document not found' };
+
+    const body = (request.body || {}) as DocumentBody;
+    const invalid = validate(body);
+    if (invalid) {
+      reply.code(400);
+      return { message: invalid };
+    }
+
+    const content = body.content ?? doc.content;
+    const format = body.format ?? doc.format as DocumentFormat;
+    const prepared = prepareDocument(content, format);
+    if (!prepared.text) {
+      reply.code(400);
+      return { message: 'content has no text' };
+    }
+    if (!contextService.isAvailable()) {
+      reply.code(503);
+      return { message: 'Document storage is temporarily unavailable' };
+    }
+
+    if (prepared.contentHash !== doc.contentHash) {
+      const duplicate = await prisma.brandDocument.findUnique({
+        where: {
+          tenantId_userId_brandName_contentHash: { tenantId: doc.tenantId, userId: doc.userId, brandName: doc.brandName, contentHash: prepared.contentHash }
+        }
+      });
+      if (duplicate) {
+        reply.code(409);
+        return { message: 'Another document of this brand has the same content', id: duplicate.id };
+      }
+    }
+
+    const data = {
+      title: body.title !== undefined ? body.title.trim() : doc.title,
+      kind: body.kind ?? doc.kind,
+      format,
+      content,
+      contentHash: prepared.contentHash,
+      chunks: prepared.chunks.length,
+      publishedAt: body.publishedAt !== undefined ? (body.publishedAt ? new Date(body.publishedAt) : null) : doc.publishedAt,
+      updatedAt: new Date()
+    };
+
+    // New chunks go in before the old ones come out, so retrieval never sees a gap
+    if (!(await storeChunks({ ...doc, ...data }, prepared))) {
+      reply.code(503);
+      return { message: 'Document storage is temporarily unavailable' };
+    }
+
+    let updated;
+    try {
+      updated = await prisma.brandDocument.update({ where: { id: doc.id }, data });
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      // Another request gave a document of the brand this content in the meantime
+      await deleteChunks(doc, prepared.contentHash);
+      reply.code(409);
+      return { message: 'Another document of this brand has the same content' };
+    }
+
+    if (prepared.contentHash !== doc.contentHash) {
+      await deleteChunks(doc, doc.contentHash);
+    }
+
+    return toResponse(updated);
+  });
+
+  fastify.delete('/api/brand-documents/:id', { preHandler: verifyToken }, async (request: any, reply) => {
+    const doc = await findOwnDocument(request, reply);
+    if (!doc) return { message: 'Document not found' };
+
+    if (!(await deleteChunks(doc))) {
+      reply.code(503);
+      return { message: 'Document storage is temporarily unavailable' };
+    }
+    await prisma.brandDocument.delete({ where: { id: doc.id } });
+
+    console.log(`🗑️ Brand document deleted: ${doc.brandName} / ${doc.title}`);
+
+    return { message: 'Document deleted', id: doc.id };
+  });
+
+  // Admin: every RAG document of a tenant (uploads, analyses, crawl facts), then its uploads
+  fastify.delete('/api/admin/tenants/:tenantId/vectors', { preHandler: verifyAdmin }, async (request, reply) => {
+    const { tenantId } = request.params as { tenantId: string };
+
+    if (!(await contextService.purgeTenant(tenantId))) {
+      reply.code(503);
+      return { message: 'Document storage is temporarily unavailable' };
+    }
+    const { count } = await prisma.brandDocument.deleteMany({ where: { tenantId } });
+
+    return { message: 'Tenant vectors purged', tenantId, brandDocuments: count };
+  });
+}
@@ -0,0 +1,35 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../../prisma/client.js';
+import { AIProvider, BrandContext } from '../analyzer/providers/types.js';
+import { createJob } from '../analyzer/analysis-store.js';
+import { runMultiProviderAnalysis } from '../analyzer/pipeline.js';
+
+/**
+ * One scheduled run: a normal analysis linked to the monitor, so it shows up
+ * in both the user's history and the monitor's history
+ */
+export async function runMonitor(monitorId: string, providers: AIProvider[]) {
+  const monitor = await prisma.monitor.findUnique({ where: { id: monitorId } });
+
+  // Paused or deleted between scheduling and pickup
+  if (!monitor || monitor.status !== 'active') {
+    console.log(`⏭️ Monitor ${monitorId} skipped (${monitor ? monitor.status : 'deleted'})`);
+    return { skipped: true };
+  }
+
+  const jobId = randomUUID();
+  console.log(`🔁 Monitor run for ${monitor.brandName} (${monitor.frequency}) - job ${jobId}`);
+
+  await createJob(jobId, monitor.brandName, monitor.userId, { monitorId: monitor.id });
+  await runMultiProviderAnalysis(monitor.brandName, jobId, monitor.userId, providers, {
+    tenantId: monitor.tenantId,
+    context: (monitor.context as BrandContext | null) ?? undefined
+  });
+
+  await prisma.monitor.update({
+    where: { id: monitor.id },
+    data: { lastRunAt: new Date() }
+  });
+
+  return { jobId };
+}
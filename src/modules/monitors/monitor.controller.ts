@@ -0,0 +1,144 @@
+import { FastifyInstance } from 'fastify';
+import { prisma } from '../../prisma/client.js';
+import { verifyToken } from '../../middleware/auth.js';
+import { resolveTenantId } from '../../plugins/tenant.js';
+import { getMonitorHistory } from '../analyzer/analysis-store.js';
+import { parseBrandContext } from '../analyzer/brand-context.js';
+import { MONITOR_INTERVALS, MonitorFrequency, scheduleMonitor, unscheduleMonitor } from '../../queue/index.js';
+
+function toResponse(monitor: any) {
+  return {
+    id: monitor.id,
+    brandName: monitor.brandName,
+    context: monitor.context ?? null,
+    frequency: monitor.frequency,
+    status: monitor.status,
+    lastRunAt: monitor.lastRunAt ? monitor.lastRunAt.toISOString() : null,
+    createdAt: monitor.createdAt.toISOString()
+  };
+}
+
+// Monitors are only visible to their owner; anyone else gets a 404
+async function findOwnMonitor(request: any, reply: any) {
+  const { id } = request.params as { id: string };
+  const monitor = await prisma.monitor.findUnique({ where: { id } });
+
+  if (!monitor || monitor.userId !== request.user.userId) {
+    reply.code(404);
+    return null;
+  }
+  return monitor;
+}
+
+export default async function monitorRoutes(fastify: FastifyInstance) {
+  fastify.post('/api/monitors', { preHandler: verifyToken }, async (request: any, reply) => {
+    const { brandName, frequency } = request.body as { brandName: string; frequency: MonitorFrequency };
+
+    if (!brandName || !brandName.trim()) {
+      reply.code(400);
+      return { message: 'brandName is required' };
+    }
+    if (!Object.keys(MONITOR_INTERVALS).includes(frequency)) {
+      reply.code(400);
+      return { message: `frequency must be one of: ${Object.keys(MONITOR_INTERVALS).join(', ')}` };
+    }
+
+    // Same optional domain / industry / country / aliases as an analyze request
+    let context;
+    try {
+      context = parseBrandContext(request.body);
+    } catch (error) {
+      reply.code(400);
+      return { message: error.message };
+    }
+
+    const monitor = await prisma.monitor.create({
+      data: {
+        userId: request.user.userId,
+        tenantId: resolveTenantId(request),
+        brandName: brandName.trim(),
+        context,
+        frequency
+      }
+    });
+
+    try {
+      await scheduleMonitor(monitor.id, frequency);
+    } catch (error) {
+      console.error(`❌ Failed to schedule monitor ${monitor.id}:`, error.message);
+      await prisma.monitor.delete({ where: { id: monitor.id } });
+      reply.code(503);
+      return { message: 'Monitoring is temporarily unavailable' };
+    }
+
+    console.log(`📅 Monitor created: ${monitor.brandName} (${frequency})`);
+
+    reply.code(201);
+    return toResponse(monitor);
+  });
+
+  fastify.get('/api/monitors', { preHandler: verifyToken }, async (request: any) => {
+    const monitors = await prisma.monitor.findMany({
+      where: { userId: request.user.userId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return {
+      monitors: monitors.map(toResponse),
+      total: monitors.length
+    };
+  });
+
+  fastify.get('/api/monitors/:id/history', { preHandler: verifyToken }, async (request: any, reply) => {
+    const monitor = await findOwnMonitor(request, reply);
+    if (!monitor) return { message: 'Monitor not found' };
+
+    const history = await getMonitorHistory(monitor.id);
+
+    return {
+      monitor: toResponse(monitor),
+      history,
+      total: history.length
+    };
+  });
+
+  fastify.post('/api/monitors/:id/pause', { preHandler: verifyToken }, async (request: any, reply) => {
+    const monitor = await findOwnMonitor(request, reply);
+    if (!monitor) return { message: 'Monitor not found' };
+
+    await unscheduleMonitor(monitor.id);
+    const updated = await prisma.monitor.update({
+      where: { id: monitor.id },
+      data: { status: 'paused' }
+    });
+
+    return toResponse(updated);
+  });
+
+  // Resuming runs the monitor straight away, then on its usual interval
+  fastify.post('/api/monitors/:id/resume', { preHandler: verifyToken }, async (request: any, reply) => {
+    const monitor = await findOwnMonitor(request, reply);
+    if (!monitor) return { message: 'Monitor not found' };
+
+    const updated = await prisma.monitor.update({
+      where: { id: monitor.id },
+      data: { status: 'active' }
+    });
+    await scheduleMonitor(monitor.id, monitor.frequency as MonitorFrequency);
+
+    return toResponse(updated);
+  });
+
+  // Past runs stay in the user's analysis history
+  fastify.delete('/api/monitors/:id', { preHandler: verifyToken }, async (request: any, reply) => {
+    const monitor = await findOwnMonitor(request, reply);
+    if (!monitor) return { message: 'Monitor not found' };
+
+    await unscheduleMonitor(monitor.id);
+    await prisma.monitor.delete({ where: { id: monitor.id } });
+
+    console.log(`🗑️ Monitor deleted: ${monitor.brandName}`);
+
+    return { message: 'Monitor deleted', id: monitor.id };
+  });
+}
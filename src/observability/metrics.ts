@@ -50,6 +50,13 @@ export const cacheMisses = new Counter({
   registers: [registry]
 });
 
+export const circuitEvents = new Counter({
+  name: 'circuit_events_total',
+  help: 'Circuit breaker transitions and short circuits',
+  labelNames: ['provider', 'event'],
+  registers: [registry]
+});
+
 export async function registerMetricsPlugin(fastify: FastifyInstance) {
   // Track request timing
   fastify.addHook('onRequest', async (req) => {
@@ -8,26 +8,32 @@ declare module 'fastify' {
   }
 }
 
+/**
+ * Tenant of a request. Routes that authenticate in their own preHandler pass
+ * the decoded user, since the hook below runs before it.
+ */
+export function resolveTenantId(req: any, user = req.user): string {
+  // JWT strategy - from authenticated user
+  if (env.TENANT_RESOLVER === 'jwt' && user?.tenantId) {
+    return String(user.tenantId);
+  }
+  
+  // Subdomain strategy - from host header
+  if (env.TENANT_RESOLVER === 'subdomain') {
+    const host = req.headers.host || '';
+    // Extract subdomain: acme.example.com -> acme
+    const subdomain = host.split(':')[0].split('.').at(0);
+    if (subdomain && subdomain !== 'www' && subdomain !== 'app') {
+      return subdomain;
+    }
+  }
+  
+  // Static/fallback strategy
+  return env.TENANT_STATIC_ID || 'public';
+}
+
 export default async function tenantPlugin(fastify: FastifyInstance) {
   fastify.addHook('preHandler', async (req) => {
-    // JWT strategy - from authenticated user
-    if (env.TENANT_RESOLVER === 'jwt' && req.user?.tenantId) {
-      req.tenantId = String(req.user.tenantId);
-      return;
-    }
-    
-    // Subdomain strategy - from host header
-    if (env.TENANT_RESOLVER === 'subdomain') {
-      const host = req.headers.host || '';
-      // Extract subdomain: acme.example.com -> acme
-      const subdomain = host.split(':')[0].split('.').at(0);
-      if (subdomain && subdomain !== 'www' && subdomain !== 'app') {
-        req.tenantId = subdomain;
-        return;
-      }
-    }
-    
-    // Static/fallback strategy
-    req.tenantId = env.TENANT_STATIC_ID || 'public';
+    req.tenantId = resolveTenantId(req);
   });
-}
\ No newline at end of file
+}
@@ -1,8 +1,21 @@
-import { Queue, Worker, JobsOptions } from 'bullmq';
+import { Queue, Worker, JobsOptions, UnrecoverableError } from 'bullmq';
 import { redis } from '../shared/redis.js';
-import { aiAnalyzerService } from '../modules/analyzer/analyzer.service.js';
+import { AIProvider } from '../modules/analyzer/providers/types.js';
+import { runMonitor } from '../modules/monitors/monitor-runner.js';
 import { env } from '../config/env.js';
 
+export type MonitorFrequency = 'daily' | 'weekly' | 'monthly';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Interval-based rather than cron so monitors created at different times
+// don't all fire at once. Monthly is a fixed 30 days.
+export const MONITOR_INTERVALS: Record<MonitorFrequency, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS
+};
+
 export const analyzeQueue = new Queue('analyze', {
   connection: redis,
   defaultJobOptions: {
@@ -13,22 +26,48 @@ export const analyzeQueue = new Queue('analyze', {
   } as JobsOptions
 });
 
+function schedulerId(monitorId: string) { return `monitor:${monitorId}`; }
+
+/**
+ * Create or replace the repeatable job for a monitor. The first run is
+ * enqueued immediately, then one every interval.
+ */
+export async function scheduleMonitor(monitorId: string, frequency: MonitorFrequency) {
+  await analyzeQueue.upsertJobScheduler(
+    schedulerId(monitorId),
+    { every: MONITOR_INTERVALS[frequency] },
+    { name: 'monitor', data: { monitorId } }
+  );
+}
+
+export async function unscheduleMonitor(monitorId: string) {
+  await analyzeQueue.removeJobScheduler(schedulerId(monitorId));
+}
+
 // Worker
-const worker = new Worker('analyze', async job => {
-  const { input } = job.data as { input: string };
-  return aiAnalyzerService.analyze(input);
-}, {
-  connection: redis,
-  concurrency: 5,
-  limiter: {
-    max: env.RL_ANALYZE_PER_MIN,
-    duration: 60 * 1000
-  }
-});
+export function startAnalyzeWorker(providers: AIProvider[]) {
+  const worker = new Worker('analyze', async job => {
+    // Monitor runs are the only jobs this worker knows; retrying anything else won't help
+    const { monitorId } = (job.data || {}) as { monitorId?: string };
+    if (job.name !== 'monitor' || typeof monitorId !== 'string') {
+      throw new UnrecoverableError(`Unknown analyze job "${job.name}"`);
+    }
+    return runMonitor(monitorId, providers);
+  }, {
+    connection: redis,
+    concurrency: 5,
+    limiter: {
+      max: env.RL_ANALYZE_PER_MIN,
+      duration: 60 * 1000
+    }
+  });
 
-worker.on('completed', job => {
-  console.log(`[worker] completed job ${job.id}`);
-});
-worker.on('failed', (job, err) => {
-  console.error(`[worker] failed job ${job?.id}:`, err?.message);
-});
\ No newline at end of file
+  worker.on('completed', job => {
+    console.log(`[worker] completed job ${job.id}`);
+  });
+  worker.on('failed', (job, err) => {
+    console.error(`[worker] failed job ${job?.id}:`, err?.message);
+  });
+
+  return worker;
+}
@@ -0,0 +1,95 @@
+import type { Redis } from 'ioredis';
+import { AIProvider, AnalyzeOptions, AskOptions, ProviderName, ProviderResult } from '../modules/analyzer/providers/types.js';
+import { ProviderParseError } from '../modules/analyzer/providers/result-schema.js';
+import type { PromptId } from '../modules/analyzer/providers/prompts.js';
+import { providerCalls } from '../observability/metrics.js';
+import { env } from '../config/env.js';
+import { withRetry, defaultCanRetry } from './retry.js';
+import { shouldShortCircuit, recordSuccess, recordFailure } from './circuit.js';
+
+// Breaker state lives in Redis; never let a slow or missing Redis block analysis
+const BREAKER_TIMEOUT_MS = 1000;
+
+/**
+ * Thrown instead of calling a provider whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public provider: ProviderName) {
+    super(`${provider} circuit open - skipped`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+async function breaker<T>(op: () => Promise<T>, fallback: T): Promise<T> {
+  let timer: NodeJS.Timeout;
+  try {
+    return await Promise.race([
+      op(),
+      new Promise<T>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('circuit breaker timeout')), BREAKER_TIMEOUT_MS);
+      })
+    ]);
+  } catch (err) {
+    console.error('⚠️ Circuit breaker unavailable:', err.message);
+    return fallback;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Decorates a provider with retry (429/5xx/timeouts, exponential backoff)
+ * and the Redis circuit breaker.
+ */
+export class ResilientProvider implements AIProvider {
+  name: ProviderName;
+  model: string;
+  prompts: PromptId[];
+
+  constructor(private inner: AIProvider, private redis: Redis) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.prompts = inner.prompts;
+  }
+
+  isEnabled() {
+    return this.inner.isEnabled();
+  }
+
+  async analyze(input: string, options?: AnalyzeOptions): Promise<ProviderResult> {
+    return this.call(() => this.inner.analyze(input, options));
+  }
+
+  async ask(question: string, options?: AskOptions): Promise<string> {
+    return this.call(() => this.inner.ask(question, options));
+  }
+
+  private async call<T>(op: () => Promise<T>): Promise<T> {
+    if (await breaker(() => shouldShortCircuit(this.redis, this.name), false)) {
+      providerCalls.labels(this.name, 'short_circuit').inc();
+      throw new CircuitOpenError(this.name);
+    }
+
+    try {
+      const result = await withRetry(
+        op,
+        env.AI_RETRY_ATTEMPTS,
+        env.AI_RETRY_MIN_MS,
+        env.AI_RETRY_MAX_MS,
+        defaultCanRetry
+      );
+      await breaker(() => recordSuccess(this.redis, this.name), undefined);
+      providerCalls.labels(this.name, 'ok').inc();
+      return result;
+    } catch (error) {
+      // A malformed answer still means the provider is up
+      if (error instanceof ProviderParseError) {
+        await breaker(() => recordSuccess(this.redis, this.name), undefined);
+      } else {
+        await breaker(() => recordFailure(this.redis, this.name), undefined);
+      }
+      providerCalls.labels(this.name, 'error').inc();
+      throw error;
+    }
+  }
+}
@@ -1,7 +1,7 @@
-import { QdrantClient } from '@qdrant/js-client-rest';
-import { openai } from '../shared/openai.js';
-import { env } from '../config/env.js';
 import { randomUUID } from 'crypto';
+import { sha256 } from '../shared/hash.js';
+import { PayloadFilter, VectorStore, defaultVectorStore } from './vector-store.js';
+import { Embedder, defaultEmbedder } from './embedder.js';
 
 interface Document {
   id: string;
@@ -16,145 +16,129 @@ interface SearchResult {
   metadata: Record<string, any>;
 }
 
+/**
+ * Whose documents these are. Every stored point carries both ids and every
+ * search only sees points with the caller's.
+ */
+export type RagScope = {
+  tenantId: string;
+  userId: string;             // 'anonymous' for analyses without a user
+};
+
+/**
+ * RAG documents: embeds them with the configured Embedder and keeps them in
+ * the configured VectorStore (Qdrant, pgvector or memory)
+ */
 export class ContextService {
-  private client: QdrantClient | null = null;
-  private collectionName = 'brain-index-documents';
+  private store: VectorStore | null = null;
+  private embedder: Embedder | null = null;
   private isInitialized = false;
 
-  constructor() {
-    // Initialize client only if Qdrant is configured
-    if (env.QDRANT_URL) {
-      // Check if it's internal Railway URL - skip initialization
-      if (env.QDRANT_URL.includes('railway.internal')) {
-        console.log('⚠️ RAG Pipeline disabled - using internal Railway URL that is not accessible');
-        return;
-      }
-
-      // For public Railway URLs, use HTTPS on port 443 (default)
-      const qdrantUrl = env.QDRANT_URL.startsWith('https://') 
-        ? env.QDRANT_URL 
-        : `https://${env.QDRANT_URL}`;
-
-      console.log('🔧 Initializing Qdrant client with URL:', qdrantUrl);
-
-      this.client = new QdrantClient({
-        url: qdrantUrl,
-        port: 443, // Explicitly set HTTPS port
-        https: true, // Force HTTPS
-        apiKey: env.QDRANT_API_KEY,
-      });
-    }
-  }
+  constructor(
+    private createStore: () => VectorStore | null = defaultVectorStore,
+    private createEmbedder: () => Embedder = defaultEmbedder
+  ) {}
 
   /**
-   * Initialize Qdrant collection
+   * Set up the vector store for the embedder's dimensions
    */
   async initialize(): Promise<void> {
-    if (!this.client) {
-      console.log('⚠️ RAG Pipeline disabled - Qdrant not configured or using internal Railway URL');
-      return;
-    }
-
     try {
-      const collections = await this.client.getCollections();
-      const exists = collections.collections.some(
-        (c) => c.name === this.collectionName
-      );
-
-      if (!exists) {
-        await this.client.createCollection(this.collectionName, {
-          vectors: {
-            size: 1536, // OpenAI ada-002 embedding size
-            distance: 'Cosine',
-          },
-        });
-        console.log(`✅ Qdrant collection "${this.collectionName}" created`);
-      } else {
-        console.log(`✅ Qdrant collection "${this.collectionName}" exists`);
+      this.store = this.createStore();
+      if (!this.store) {
+        console.log('⚠️ RAG Pipeline disabled (VECTOR_STORE=none)');
+        return;
       }
-      
+
+      this.embedder = this.createEmbedder();
+      await this.store.init(this.embedder.dimensions);
+
       this.isInitialized = true;
-      console.log('✅ RAG Pipeline initialized successfully');
+      console.log(`✅ RAG Pipeline initialized (${this.store.name}, ${this.embedder.name}, ${this.embedder.dimensions} dims)`);
     } catch (error) {
-      console.error('❌ Qdrant initialization failed:', error);
+      console.error('❌ Vector store initialization failed:', error.message);
       console.log('⚠️ RAG Pipeline will be disabled for this session');
-      this.client = null;
+      this.store = null;
     }
   }
 
   /**
-   * Ingest documents into Qdrant
+   * Embed documents and upsert them into the vector store, tagged with the
+   * scope. Returns how many were stored: 0 when RAG is unavailable or
+   * ingestion failed.
    */
-  async ingestDocuments(documents: Document[]): Promise<void> {
-    if (!this.client || !this.isInitialized) {
+  async ingestDocuments(documents: Document[], scope: RagScope): Promise<number> {
+    if (!this.isAvailable()) {
       console.log('⚠️ RAG Pipeline not available - skipping document ingestion');
-      return;
+      return 0;
     }
 
     try {
       const points = await Promise.all(
-        documents.map(async (doc, index) => {
-          // Generate embedding using OpenAI
-          const embedding = await this.generateEmbedding(doc.content);
-
-          // Generate valid UUID for Qdrant
-          const validId = doc.id && this.isValidUUID(doc.id) 
-            ? doc.id 
-            : randomUUID();
-
-          return {
-            id: validId,
-            vector: embedding,
-            payload: {
-              content: doc.content,
-              originalId: doc.id, // Store original ID in payload
-              ...doc.metadata,
-            },
-          };
-        })
+        documents.map(async (doc) => ({
+          // Qdrant only takes UUIDs. Scoped, so one tenant's id never replaces another's point
+          id: this.toUUID(`${scope.tenantId}/${scope.userId}/${doc.id || randomUUID()}`),
+          vector: await this.embedder.embed(doc.content),
+          payload: {
+            content: doc.content,
+            originalId: doc.id, // Store original ID in payload
+            ...doc.metadata,
+            tenantId: scope.tenantId,
+            userId: scope.userId,
+          },
+        }))
       );
 
-      await this.client.upsert(this.collectionName, {
-        wait: true,
-        points,
-      });
+      await this.store.upsert(points);
 
-      console.log(`✅ Ingested ${documents.length} documents into Qdrant`);
+      console.log(`✅ Ingested ${documents.length} documents into ${this.store.name}`);
+      return documents.length;
     } catch (error) {
       console.error('❌ Document ingestion failed:', error);
+      return 0;
     }
   }
 
   /**
-   * Check if string is valid UUID
+   * Delete every stored document whose metadata matches the filter.
+   * False when RAG is unavailable or the delete failed.
    */
-  private isValidUUID(str: string): boolean {
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    return uuidRegex.test(str);
+  async deleteDocuments(filter: PayloadFilter): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+
+    try {
+      await this.store.delete(filter);
+      return true;
+    } catch (error) {
+      console.error('❌ Document delete failed:', error);
+      return false;
+    }
+  }
+
+  // Same id → same UUID, so re-ingesting a document replaces it
+  private toUUID(id: string): string {
+    const hex = sha256(id);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
   }
 
   /**
-   * Search for relevant documents using vector similarity
+   * Search the scope's documents using vector similarity. Points without
+   * tenant and owner tags are never returned.
    */
-  async search(query: string, limit = 5): Promise<SearchResult[]> {
-    if (!this.client || !this.isInitialized) {
+  async search(query: string, scope: RagScope, limit = 5): Promise<SearchResult[]> {
+    if (!this.isAvailable()) {
       return [];
     }
 
     try {
-      const queryEmbedding = await this.generateEmbedding(query);
-
-      const results = await this.client.search(this.collectionName, {
-        vector: queryEmbedding,
-        limit,
-        with_payload: true,
-      });
+      const filter = { tenantId: scope.tenantId, userId: scope.userId };
+      const results = await this.store.search(await this.embedder.embed(query), limit, filter);
 
       return results.map((result) => ({
-        id: result.id as string,
-        content: result.payload?.content as string,
+        id: result.id,
+        content: result.payload.content as string,
         score: result.score,
-        metadata: result.payload as Record<string, any>,
+        metadata: result.payload,
       }));
     } catch (error) {
       console.error('❌ Search failed:', error);
@@ -165,12 +149,12 @@ export class ContextService {
   /**
    * Generate context for a given query
    */
-  async generateContext(query: string, maxResults = 3): Promise<string> {
-    if (!this.client || !this.isInitialized) {
+  async generateContext(query: string, scope: RagScope, maxResults = 3): Promise<string> {
+    if (!this.isAvailable()) {
       return '';
     }
 
-    const results = await this.search(query, maxResults);
+    const results = await this.search(query, scope, maxResults);
 
     if (results.length === 0) {
       return '';
@@ -187,30 +171,26 @@ ${result.content}`;
   }
 
   /**
-   * Generate embedding using OpenAI ada-002
+   * Delete every document of a tenant, whoever owns it
    */
-  private async generateEmbedding(text: string): Promise<number[]> {
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-ada-002',
-      input: text,
-    });
-
-    return response.data[0].embedding;
+  async purgeTenant(tenantId: string): Promise<boolean> {
+    const purged = await this.deleteDocuments({ tenantId });
+    if (purged) console.log(`🧹 Purged RAG documents of tenant "${tenantId}"`);
+    return purged;
   }
 
   /**
    * Delete all documents from collection
    */
   async clearCollection(): Promise<void> {
-    if (!this.client || !this.isInitialized) {
+    if (!this.isAvailable()) {
       console.log('⚠️ RAG Pipeline not available - cannot clear collection');
       return;
     }
 
     try {
-      await this.client.deleteCollection(this.collectionName);
-      await this.initialize();
-      console.log(`✅ Collection "${this.collectionName}" cleared`);
+      await this.store.clear();
+      console.log(`✅ Vector store "${this.store.name}" cleared`);
     } catch (error) {
       console.error('❌ Clear collection failed:', error);
     }
@@ -220,7 +200,7 @@ ${result.content}`;
    * Check if RAG is available
    */
   isAvailable(): boolean {
-    return this.isInitialized && this.client !== null;
+    return this.isInitialized && this.store !== null;
   }
 }
 
@@ -0,0 +1,82 @@
+import { OpenAI } from 'openai';
+import { openai } from '../shared/openai.js';
+import { env } from '../config/env.js';
+import { sha256 } from '../shared/hash.js';
+
+/**
+ * Turns text into vectors for the RAG store. Every vector has `dimensions`
+ * entries; the store is created (or checked) with the same size.
+ */
+export interface Embedder {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(text: string): Promise<number[]>;
+}
+
+/**
+ * OpenAI embeddings API, or any OpenAI-compatible one (EMBEDDING_BASE_URL,
+ * e.g. a local Ollama). text-embedding-3 models are asked for `dimensions`;
+ * older models return their fixed size, which has to match.
+ */
+export class OpenAIEmbedder implements Embedder {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(
+    private model = env.EMBEDDING_MODEL,
+    readonly dimensions = env.EMBEDDING_DIMENSIONS,
+    baseURL = env.EMBEDDING_BASE_URL
+  ) {
+    this.name = `openai:${model}`;
+    this.client = baseURL
+      ? new OpenAI({ apiKey: env.EMBEDDING_API_KEY || env.OPENAI_API_KEY || 'local', baseURL })
+      : openai;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: text,
+      ...(this.model.startsWith('text-embedding-3') && { dimensions: this.dimensions })
+    });
+
+    const embedding = response.data[0].embedding;
+    if (embedding.length !== this.dimensions) {
+      throw new Error(`${this.model} returned ${embedding.length} dimensions, EMBEDDING_DIMENSIONS is ${this.dimensions}`);
+    }
+    return embedding;
+  }
+}
+
+/**
+ * Offline feature hashing: words and word pairs hashed into a fixed-size,
+ * L2-normalized vector. No model, no network, same text → same vector.
+ * Matches shared wording rather than meaning, so similarities run lower than
+ * with a real model (lower RAG_MIN_SCORE to match).
+ */
+export class HashEmbedder implements Embedder {
+  readonly name = 'local:hash';
+
+  constructor(readonly dimensions = env.EMBEDDING_DIMENSIONS) {}
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const hash = sha256(feature);
+      const index = parseInt(hash.slice(0, 8), 16) % this.dimensions;
+      vector[index] += parseInt(hash.slice(8, 10), 16) & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+}
+
+// EMBEDDING_PROVIDER picks the backend; without it, OpenAI when a key is set
+export function defaultEmbedder(): Embedder {
+  const provider = env.EMBEDDING_PROVIDER || (env.OPENAI_API_KEY || env.EMBEDDING_BASE_URL ? 'openai' : 'local');
+  return provider === 'local' ? new HashEmbedder() : new OpenAIEmbedder();
+}
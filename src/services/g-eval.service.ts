@@ -1,11 +1,11 @@
 import { openai } from '../shared/openai.js';
 
-interface GEvalInput {
+export interface GEvalInput {
   claim: string;
   context: string;
 }
 
-interface GEvalResult {
+export interface GEvalResult {
   groundedness: number; // 0-1 score
   reasoning: string;
   isGrounded: boolean;
@@ -0,0 +1,254 @@
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { env } from '../config/env.js';
+
+export type VectorPoint = {
+  id: string;                       // UUID
+  vector: number[];
+  payload: Record<string, any>;
+};
+
+export type VectorMatch = {
+  id: string;
+  score: number;                    // Cosine similarity
+  payload: Record<string, any>;
+};
+
+// Payload fields a point must have, all of them, with exactly these values
+export type PayloadFilter = Record<string, string>;
+
+/**
+ * Where RAG vectors live. `init` creates the collection/table for vectors of
+ * `dimensions` entries, or throws when an existing one has another size.
+ */
+export interface VectorStore {
+  readonly name: string;
+  init(dimensions: number): Promise<void>;
+  upsert(points: VectorPoint[]): Promise<void>;
+  search(vector: number[], limit: number, filter: PayloadFilter): Promise<VectorMatch[]>;
+  delete(filter: PayloadFilter): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const matches = (payload: Record<string, any>, filter: PayloadFilter) =>
+  Object.entries(filter).every(([key, value]) => String(payload[key]) === value);
+
+// Payload fields every search and delete filters on: indexed where the store supports it
+export const SCOPE_FIELDS = ['tenantId', 'userId'];
+
+const qdrantFilter = (filter: PayloadFilter) => ({
+  must: Object.entries(filter).map(([key, value]) => ({ key, match: { value } }))
+});
+
+const dimensionMismatch = (where: string, size: number, dimensions: number) =>
+  new Error(`${where} holds ${size}-dimension vectors but the embedder makes ${dimensions}; ` +
+    'point the store at a new collection/table or change EMBEDDING_DIMENSIONS');
+
+/**
+ * Qdrant over REST. URLs without a scheme are taken as HTTPS; without a port,
+ * HTTPS uses 443 (public proxies) and HTTP Qdrant's own 6333.
+ */
+export class QdrantStore implements VectorStore {
+  readonly name = 'qdrant';
+  private client: QdrantClient;
+  private dimensions = 0;
+
+  constructor(url = env.QDRANT_URL, private collection = env.QDRANT_COLLECTION) {
+    const parsed = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+    const https = parsed.protocol === 'https:';
+    const port = parsed.port ? Number(parsed.port) : https ? 443 : 6333;
+
+    console.log(`🔧 Qdrant client: ${parsed.protocol}//${parsed.hostname}:${port}`);
+    this.client = new QdrantClient({
+      url: `${parsed.protocol}//${parsed.hostname}`,
+      port,
+      https,
+      apiKey: env.QDRANT_API_KEY || undefined
+    });
+  }
+
+  async init(dimensions: number): Promise<void> {
+    this.dimensions = dimensions;
+    const { collections } = await this.client.getCollections();
+
+    if (!collections.some(c => c.name === this.collection)) {
+      await this.client.createCollection(this.collection, {
+        vectors: { size: dimensions, distance: 'Cosine' }
+      });
+      console.log(`✅ Qdrant collection "${this.collection}" created`);
+    } else {
+      const info = await this.client.getCollection(this.collection);
+      const vectors = info.config?.params?.vectors as { size?: number } | undefined;
+      if (vectors?.size && vectors.size !== dimensions) {
+        throw dimensionMismatch(`Qdrant collection "${this.collection}"`, vectors.size, dimensions);
+      }
+      console.log(`✅ Qdrant collection "${this.collection}" exists`);
+    }
+
+    // No-op when the index exists
+    for (const field of SCOPE_FIELDS) {
+      await this.client.createPayloadIndex(this.collection, { field_name: field, field_schema: 'keyword', wait: true });
+    }
+  }
+
+  async upsert(points: VectorPoint[]): Promise<void> {
+    await this.client.upsert(this.collection, { wait: true, points });
+  }
+
+  async search(vector: number[], limit: number, filter: PayloadFilter): Promise<VectorMatch[]> {
+    const results = await this.client.search(this.collection, { vector, limit, filter: qdrantFilter(filter), with_payload: true });
+    return results.map(r => ({ id: String(r.id), score: r.score, payload: (r.payload || {}) as Record<string, any> }));
+  }
+
+  async delete(filter: PayloadFilter): Promise<void> {
+    await this.client.delete(this.collection, { wait: true, filter: qdrantFilter(filter) });
+  }
+
+  async clear(): Promise<void> {
+    await this.client.deleteCollection(this.collection);
+    await this.init(this.dimensions);
+  }
+}
+
+const TABLE_NAME = /^[a-z_][a-z0-9_]*$/;
+
+/**
+ * Postgres with the pgvector extension, in the app database. The table is
+ * created at startup with the configured dimensions and is not part of the
+ * Prisma schema (the vector size is a runtime setting).
+ */
+export class PgvectorStore implements VectorStore {
+  readonly name = 'pgvector';
+  private dimensions = 0;
+
+  constructor(private table = env.PGVECTOR_TABLE) {
+    if (!TABLE_NAME.test(table)) throw new Error(`Invalid PGVECTOR_TABLE "${table}"`);
+  }
+
+  // Loaded on first use so the other stores don't need a generated Prisma client
+  private async db() {
+    return (await import('../prisma/client.js')).prisma;
+  }
+
+  async init(dimensions: number): Promise<void> {
+    this.dimensions = dimensions;
+    const db = await this.db();
+    await db.$executeRawUnsafe('CREATE EXTENSION IF NOT EXISTS vector');
+    await db.$executeRawUnsafe(
+      `CREATE TABLE IF NOT EXISTS "${this.table}" (
+        "id" TEXT PRIMARY KEY,
+        "embedding" vector(${dimensions}) NOT NULL,
+        "payload" JSONB NOT NULL,
+        "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )`
+    );
+    // Serves the payload @> filter of every search and delete
+    await db.$executeRawUnsafe(
+      `CREATE INDEX IF NOT EXISTS "${this.table}_payload_idx" ON "${this.table}" USING GIN ("payload" jsonb_path_ops)`
+    );
+
+    const [column] = await db.$queryRawUnsafe<{ type: string }[]>(
+      `SELECT format_type(atttypid, atttypmod) AS type FROM pg_attribute
+       WHERE attrelid = $1::regclass AND attname = 'embedding'`,
+      `"${this.table}"`
+    );
+    const size = Number(column?.type.match(/vector\((\d+)\)/)?.[1]);
+    if (size && size !== dimensions) throw dimensionMismatch(`Table "${this.table}"`, size, dimensions);
+    console.log(`✅ pgvector table "${this.table}" ready`);
+  }
+
+  async upsert(points: VectorPoint[]): Promise<void> {
+    const db = await this.db();
+    for (const point of points) {
+      await db.$executeRawUnsafe(
+        `INSERT INTO "${this.table}" ("id", "embedding", "payload") VALUES ($1, $2::vector, $3::jsonb)
+         ON CONFLICT ("id") DO UPDATE SET "embedding" = EXCLUDED."embedding", "payload" = EXCLUDED."payload"`,
+        point.id,
+        JSON.stringify(point.vector),
+        JSON.stringify(point.payload)
+      );
+    }
+  }
+
+  async search(vector: number[], limit: number, filter: PayloadFilter): Promise<VectorMatch[]> {
+    const db = await this.db();
+    // <=> is cosine distance
+    const rows = await db.$queryRawUnsafe<{ id: string; score: number; payload: Record<string, any> }[]>(
+      `SELECT "id", 1 - ("embedding" <=> $1::vector) AS score, "payload" FROM "${this.table}"
+       WHERE "payload" @> $3::jsonb
+       ORDER BY "embedding" <=> $1::vector LIMIT $2`,
+      JSON.stringify(vector),
+      limit,
+      JSON.stringify(filter)
+    );
+    return rows.map(r => ({ id: r.id, score: Number(r.score), payload: r.payload }));
+  }
+
+  async delete(filter: PayloadFilter): Promise<void> {
+    const db = await this.db();
+    await db.$executeRawUnsafe(`DELETE FROM "${this.table}" WHERE "payload" @> $1::jsonb`, JSON.stringify(filter));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.db();
+    await db.$executeRawUnsafe(`DROP TABLE IF EXISTS "${this.table}"`);
+    await this.init(this.dimensions);
+  }
+}
+
+/**
+ * Process memory, exact cosine search. Empty on every start: for local
+ * development, tests and offline runs.
+ */
+export class MemoryStore implements VectorStore {
+  readonly name = 'memory';
+  private points = new Map<string, VectorPoint>();
+
+  async init(): Promise<void> {}
+
+  async upsert(points: VectorPoint[]): Promise<void> {
+    for (const point of points) this.points.set(point.id, point);
+  }
+
+  async search(vector: number[], limit: number, filter: PayloadFilter): Promise<VectorMatch[]> {
+    return [...this.points.values()]
+      .filter(p => matches(p.payload, filter))
+      .map(p => ({ id: p.id, score: cosine(vector, p.vector), payload: p.payload }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async delete(filter: PayloadFilter): Promise<void> {
+    for (const [id, point] of this.points) {
+      if (matches(point.payload, filter)) this.points.delete(id);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.points.clear();
+  }
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * VECTOR_STORE picks the backend; without it, Qdrant when QDRANT_URL is set
+ * and memory otherwise. 'none' turns RAG off.
+ */
+export function defaultVectorStore(): VectorStore | null {
+  const backend = env.VECTOR_STORE || (env.QDRANT_URL ? 'qdrant' : 'memory');
+  switch (backend) {
+    case 'qdrant': return new QdrantStore();
+    case 'pgvector': return new PgvectorStore();
+    case 'memory': return new MemoryStore();
+    case 'none': return null;
+    default: throw new Error(`Unknown VECTOR_STORE "${backend}" (qdrant | pgvector | memory | none)`);
+  }
+}
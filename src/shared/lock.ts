@@ -1,19 +1,32 @@
 import type { Redis } from 'ioredis';
 
+// Delete the key only if it still holds our value
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
 export async function acquireLock(
   redis: Redis,
   key: string,
-  ttlMs: number
+  ttlMs: number,
+  value = '1'
 ): Promise<boolean> {
-  // SET key 1 NX PX ttl - atomic operation
-  const res = await redis.set(key, '1', 'NX', 'PX', ttlMs);
+  // SET key value PX ttl NX - atomic operation
+  const res = await redis.set(key, value, 'PX', ttlMs, 'NX');
   return res === 'OK';
 }
 
-export async function releaseLock(redis: Redis, key: string) {
+// With `value`, a lock that expired and was taken by someone else is left alone
+export async function releaseLock(redis: Redis, key: string, value?: string) {
   try { 
-    await redis.del(key); 
+    if (value === undefined) {
+      await redis.del(key);
+    } else {
+      await redis.eval(RELEASE_SCRIPT, 1, key, value);
+    }
   } catch (err) {
     console.error(`Failed to release lock ${key}:`, err);
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,8 @@
 import { OpenAI } from 'openai';
+import { openAIFetch } from './provider-http.js';
 
-// Shared OpenAI instance
+// Shared OpenAI instance (chat completions go through record/replay)
 export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || ''
+  apiKey: process.env.OPENAI_API_KEY || '',
+  fetch: openAIFetch('chatgpt')
 });
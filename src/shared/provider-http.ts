@@ -0,0 +1,159 @@
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { env } from '../config/env.js';
+import { sha256 } from './hash.js';
+import type { ProviderName } from '../modules/analyzer/providers/types.js';
+
+/**
+ * Record/replay for provider HTTP traffic.
+ *
+ *   PROVIDER_HTTP_MODE=live    (default) plain fetch
+ *   PROVIDER_HTTP_MODE=record  call the API and save every successful response
+ *   PROVIDER_HTTP_MODE=replay  serve saved responses, never touch the network
+ *
+ * Fixtures live in PROVIDER_FIXTURES_DIR/<provider>/<model>/<prompt hash>.json.
+ * Request headers are never written, and the Gemini `key` query param is
+ * redacted, so fixtures can be committed.
+ */
+
+export type ProviderHttpMode = 'live' | 'record' | 'replay';
+
+export type FixtureKey = {
+  provider: ProviderName;
+  model: string;
+  prompt: string;         // Full prompt text; only its hash ends up in the file name
+};
+
+export type Fixture = {
+  provider: ProviderName;
+  model: string;
+  promptHash: string;
+  request: { method: string; url: string; body: any };
+  response: { status: number; contentType: string; body: string };
+  recordedAt: string;
+};
+
+/**
+ * Thrown in replay mode when no fixture matches the request
+ */
+export class ReplayMissError extends Error {
+  constructor(public file: string) {
+    super(`No recorded response at ${file} - record it with PROVIDER_HTTP_MODE=record`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+const MODES: ProviderHttpMode[] = ['live', 'record', 'replay'];
+
+export function providerHttpMode(): ProviderHttpMode {
+  if (!MODES.includes(env.PROVIDER_HTTP_MODE)) {
+    throw new Error(`Invalid PROVIDER_HTTP_MODE "${env.PROVIDER_HTTP_MODE}" (expected ${MODES.join(', ')})`);
+  }
+  return env.PROVIDER_HTTP_MODE;
+}
+
+function fixtureDir(provider: ProviderName): string {
+  return path.resolve(env.PROVIDER_FIXTURES_DIR, provider);
+}
+
+function fixturePath(key: FixtureKey): string {
+  const model = key.model.replace(/[^\w.-]+/g, '_');
+  return path.join(fixtureDir(key.provider), model, `${sha256(key.prompt).slice(0, 16)}.json`);
+}
+
+/**
+ * Replay needs no API key: a provider with recorded fixtures counts as configured
+ */
+export function hasFixtures(provider: ProviderName): boolean {
+  return providerHttpMode() === 'replay' && existsSync(fixtureDir(provider));
+}
+
+function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  if (parsed.searchParams.has('key')) parsed.searchParams.set('key', 'REDACTED');
+  return parsed.toString();
+}
+
+function parseBody(body: unknown): any {
+  if (typeof body !== 'string') return null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * fetch() for provider API calls. `key` identifies the request in fixtures;
+ * everything else is passed to fetch untouched in live and record mode.
+ */
+export async function providerFetch(key: FixtureKey, url: string, init: RequestInit = {}): Promise<Response> {
+  const mode = providerHttpMode();
+  if (mode === 'live') return fetch(url, init);
+
+  const file = fixturePath(key);
+
+  if (mode === 'replay') {
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await readFile(file, 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') throw new ReplayMissError(file);
+      throw error;
+    }
+    return new Response(fixture.response.body, {
+      status: fixture.response.status,
+      headers: { 'content-type': fixture.response.contentType }
+    });
+  }
+
+  const res = await fetch(url, init);
+  // Errors (429, 5xx) are not worth replaying
+  if (!res.ok) return res;
+
+  const body = await res.text();
+  const contentType = res.headers.get('content-type') || 'application/json';
+  const fixture: Fixture = {
+    provider: key.provider,
+    model: key.model,
+    promptHash: sha256(key.prompt),
+    request: { method: init.method || 'GET', url: redactUrl(url), body: parseBody(init.body) },
+    response: { status: res.status, contentType, body },
+    recordedAt: new Date().toISOString()
+  };
+
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+  console.log(`📼 Recorded ${key.provider}/${key.model} → ${path.relative(process.cwd(), file)}`);
+
+  return new Response(body, { status: res.status, headers: { 'content-type': contentType } });
+}
+
+/**
+ * fetch for the OpenAI SDK client. The SDK builds the request itself, so the
+ * fixture key comes from the chat completions body (model + message contents).
+ * Other endpoints (embeddings) always go to the network.
+ * Loosely typed: the SDK declares its fetch with node-fetch types.
+ */
+export function openAIFetch(provider: ProviderName) {
+  return async (url: string, init: any = {}): Promise<any> => {
+    const body = parseBody(init.body);
+    if (!String(url).endsWith('/chat/completions') || !body?.model) {
+      return fetch(url, init);
+    }
+
+    const prompt = (body.messages || []).map((m: any) => `${m.role}: ${m.content}`).join('\n');
+    try {
+      return await providerFetch({ provider, model: body.model, prompt }, String(url), init);
+    } catch (error) {
+      // The SDK retries thrown errors as connection failures; a 404 is final
+      // and keeps the message
+      if (!(error instanceof ReplayMissError)) throw error;
+      return new Response(JSON.stringify({ error: { message: error.message } }), {
+        status: 404,
+        headers: { 'content-type': 'application/json' }
+      });
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeAnswer, brandPattern, parseListItems } from '../src/modules/analyzer/answer-probe.js';
+
+describe('parseListItems', () => {
+  it('prefers numbered items', () => {
+    const answer = 'Some options:\n- intro bullet\n1. **Asana** - teams\n2) Trello: boards\n\nSummary.';
+    assert.deepEqual(parseListItems(answer), ['**Asana** - teams', 'Trello: boards']);
+  });
+
+  it('falls back to bullets', () => {
+    assert.deepEqual(parseListItems('Try:\n- Notion\n* Linear\n• Jira'), ['Notion', 'Linear', 'Jira']);
+  });
+
+  it('returns nothing for prose', () => {
+    assert.deepEqual(parseListItems('Asana is a popular choice for teams.'), []);
+  });
+});
+
+describe('analyzeAnswer', () => {
+  const answer = [
+    'The best project management tools are:',
+    '1. **Asana** - great for teams',
+    '2. **Acme Tasks** - simple and cheap',
+    '3. [Trello](https://trello.com): boards',
+    '4. Monday.com (for enterprises)'
+  ].join('\n');
+
+  it('finds the brand, its rank and the competitors listed', () => {
+    const probe = analyzeAnswer('Best PM tools?', answer, brandPattern('Acme Tasks'));
+
+    assert.equal(probe.mentioned, true);
+    assert.equal(probe.position, 2);
+    assert.deepEqual(probe.competitors, ['Asana', 'Trello', 'Monday.com']);
+    assert.equal(probe.excerpt, 'Acme Tasks - simple and cheap');
+  });
+
+  it('matches aliases as whole words only', () => {
+    assert.equal(analyzeAnswer('q', answer, brandPattern('Acme', ['AT'])).position, 2);
+    assert.equal(analyzeAnswer('q', answer, brandPattern('Asan')).mentioned, false);
+  });
+
+  it('counts a mention outside the list without a position', () => {
+    const probe = analyzeAnswer('q', 'Most teams pick Asana. Also consider Basecamp. It is mature.', brandPattern('Basecamp'));
+
+    assert.equal(probe.mentioned, true);
+    assert.equal(probe.position, null);
+    assert.equal(probe.excerpt, 'Also consider Basecamp.');
+  });
+
+  it('reports an answer without the brand', () => {
+    const probe = analyzeAnswer('q', answer, brandPattern('Basecamp'));
+
+    assert.equal(probe.mentioned, false);
+    assert.equal(probe.position, null);
+    assert.equal(probe.excerpt, null);
+    assert.equal(probe.competitors.length, 4);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkText, toPlainText } from '../src/modules/documents/chunker.js';
+import { estimateTokens } from '../src/modules/analyzer/rag-context.js';
+
+const paragraph = (n: number) => `Paragraph ${n} describes the product line in some detail. It has two sentences.`;
+
+describe('chunkText', () => {
+  it('keeps a short text in one chunk', () => {
+    assert.deepEqual(chunkText('One short paragraph.', 100, 20), ['One short paragraph.']);
+  });
+
+  it('splits on paragraphs and keeps chunks near the size', () => {
+    const text = Array.from({ length: 12 }, (_, i) => paragraph(i + 1)).join('\n\n');
+    const chunks = chunkText(text, 60, 0);
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) assert.ok(estimateTokens(chunk) <= 60, `chunk over budget: ${chunk}`);
+    assert.ok(chunks[0].startsWith('Paragraph 1 '));
+    // No overlap: every paragraph appears exactly once
+    assert.equal(chunks.join('\n\n'), text);
+  });
+
+  it('starts each chunk with the tail of the one before', () => {
+    const text = Array.from({ length: 12 }, (_, i) => paragraph(i + 1)).join('\n\n');
+    const chunks = chunkText(text, 60, 15);
+
+    for (let i = 1; i < chunks.length; i++) {
+      const carried = chunks[i].split('\n\n')[0];
+      assert.ok(chunks[i - 1].endsWith(carried), `chunk ${i} does not start with the end of chunk ${i - 1}`);
+    }
+  });
+
+  it('splits a paragraph too long for one chunk into sentences', () => {
+    const text = Array.from({ length: 20 }, (_, i) => `Sentence number ${i + 1} is here.`).join(' ');
+    const chunks = chunkText(text, 30, 0);
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) assert.match(chunk, /^Sentence number \d+ is here\./);
+  });
+
+  it('hard-slices a sentence longer than a chunk', () => {
+    const word = Array.from({ length: 250 }, (_, i) => String(i).padStart(4, '0')).join('');
+    const chunks = chunkText(word, 50, 0);
+
+    assert.equal(chunks.length, 5);
+    assert.equal(chunks.join(''), word);
+  });
+});
+
+describe('toPlainText', () => {
+  it('drops HTML markup, scripts and entities but keeps paragraphs', () => {
+    const html = '<h1>Acme</h1><script>track()</script><p>Tents &amp; packs</p><p>Since  1999</p>';
+    assert.equal(toPlainText(html, 'html'), 'Acme\n\nTents & packs\n\nSince 1999');
+  });
+
+  it('keeps markdown words, not the markup', () => {
+    const markdown = '# Acme\n\n> **Built** to [last](https://acme.test).\n\n![Logo](logo.png)';
+    assert.equal(toPlainText(markdown, 'markdown'), 'Acme\n\nBuilt to last.\n\nLogo');
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { env } from '../src/config/env.js';
+import { sha256 } from '../src/shared/hash.js';
+import { ReplayMissError, openAIFetch, providerFetch } from '../src/shared/provider-http.js';
+
+const GEMINI_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=SECRET-KEY';
+const KEY = { provider: 'gemini' as const, model: 'models/gemini-1.5-flash', prompt: 'Analyze "Acme"' };
+const ANSWER = JSON.stringify({ candidates: [{ content: { parts: [{ text: 'recorded answer' }] } }] });
+
+const realFetch = globalThis.fetch;
+let dir: string;
+let calls: string[];
+
+// Network stand-in: answers every request with `body` and counts the calls
+function serve(body = ANSWER, status = 200) {
+  globalThis.fetch = (async (url: string) => {
+    calls.push(String(url));
+    return new Response(body, { status, headers: { 'content-type': 'application/json' } });
+  }) as typeof fetch;
+}
+
+function request() {
+  return providerFetch(KEY, GEMINI_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': 'SECRET-HEADER' },
+    body: JSON.stringify({ contents: [{ parts: [{ text: KEY.prompt }] }] })
+  });
+}
+
+describe('providerFetch', () => {
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'fixtures-'));
+    env.PROVIDER_FIXTURES_DIR = dir;
+    calls = [];
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = realFetch;
+    env.PROVIDER_HTTP_MODE = 'live';
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded response without touching the network', async () => {
+    env.PROVIDER_HTTP_MODE = 'record';
+    serve();
+    const recorded = await request();
+    assert.equal(await recorded.text(), ANSWER);
+    assert.equal(calls.length, 1);
+
+    env.PROVIDER_HTTP_MODE = 'replay';
+    const replayed = await request();
+    assert.equal(replayed.status, 200);
+    assert.equal(await replayed.text(), ANSWER);
+    assert.equal(calls.length, 1);
+  });
+
+  it('keys fixtures by provider, model and prompt hash', async () => {
+    env.PROVIDER_HTTP_MODE = 'record';
+    serve();
+    await request();
+    await providerFetch({ ...KEY, prompt: 'Analyze "Globex"' }, GEMINI_URL, { method: 'POST' });
+
+    const modelDir = path.join(dir, 'gemini', 'models_gemini-1.5-flash');
+    const files = (await readdir(modelDir)).sort();
+    assert.deepEqual(files, [
+      `${sha256(KEY.prompt).slice(0, 16)}.json`,
+      `${sha256('Analyze "Globex"').slice(0, 16)}.json`
+    ].sort());
+
+    const fixture = JSON.parse(await readFile(path.join(modelDir, files[0]), 'utf8'));
+    assert.equal(fixture.provider, 'gemini');
+    assert.equal(fixture.model, KEY.model);
+  });
+
+  it('never writes API keys into fixtures', async () => {
+    env.PROVIDER_HTTP_MODE = 'record';
+    serve();
+    await request();
+
+    const file = path.join(dir, 'gemini', 'models_gemini-1.5-flash', `${sha256(KEY.prompt).slice(0, 16)}.json`);
+    const saved = await readFile(file, 'utf8');
+    assert.ok(!saved.includes('SECRET-KEY'));
+    assert.ok(!saved.includes('SECRET-HEADER'));
+    assert.match(JSON.parse(saved).request.url, /[?&]key=REDACTED/);
+  });
+
+  it('does not record error responses', async () => {
+    env.PROVIDER_HTTP_MODE = 'record';
+    serve('{"error":"rate limited"}', 429);
+
+    assert.equal((await request()).status, 429);
+    assert.equal(existsSync(path.join(dir, 'gemini')), false);
+  });
+
+  it('throws ReplayMissError when nothing was recorded', async () => {
+    env.PROVIDER_HTTP_MODE = 'replay';
+    serve();
+
+    await assert.rejects(request(), (error: unknown) => {
+      assert.ok(error instanceof ReplayMissError);
+      assert.equal(error.file, path.join(dir, 'gemini', 'models_gemini-1.5-flash', `${sha256(KEY.prompt).slice(0, 16)}.json`));
+      return true;
+    });
+    assert.equal(calls.length, 0);
+  });
+});
+
+describe('openAIFetch', () => {
+  const chatUrl = 'https://api.openai.com/v1/chat/completions';
+  const chatBody = JSON.stringify({
+    model: 'gpt-4o-mini',
+    messages: [{ role: 'user', content: 'Analyze "Acme"' }]
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'fixtures-'));
+    env.PROVIDER_FIXTURES_DIR = dir;
+    calls = [];
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = realFetch;
+    env.PROVIDER_HTTP_MODE = 'live';
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keys chat completions by the message contents', async () => {
+    env.PROVIDER_HTTP_MODE = 'record';
+    serve();
+    await openAIFetch('chatgpt')(chatUrl, { method: 'POST', body: chatBody });
+
+    const file = path.join(dir, 'chatgpt', 'gpt-4o-mini', `${sha256('user: Analyze "Acme"').slice(0, 16)}.json`);
+    assert.ok(existsSync(file));
+  });
+
+  it('turns a replay miss into a final 404 response', async () => {
+    env.PROVIDER_HTTP_MODE = 'replay';
+    serve();
+
+    const res = await openAIFetch('chatgpt')(chatUrl, { method: 'POST', body: chatBody });
+    assert.equal(res.status, 404);
+    assert.match((await res.json()).error.message, /No recorded response/);
+    assert.equal(calls.length, 0);
+  });
+
+  it('sends other endpoints to the network', async () => {
+    env.PROVIDER_HTTP_MODE = 'replay';
+    serve('{"data":[]}');
+
+    const res = await openAIFetch('chatgpt')('https://api.openai.com/v1/embeddings', { method: 'POST', body: '{"model":"text-embedding-3-small"}' });
+    assert.equal(res.status, 200);
+    assert.deepEqual(calls, ['https://api.openai.com/v1/embeddings']);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import { auditSite, scoreStructuredData } from '../src/modules/crawler/site-audit.js';
+import { FixtureFetcher } from '../src/modules/crawler/fetcher.js';
+
+const fetcher = new FixtureFetcher(fileURLToPath(new URL('../fixtures/sites', import.meta.url)));
+
+describe('scoreStructuredData', () => {
+  it('scores the fixture site from its crawl', async () => {
+    const audit = await auditSite('acme-example.com', fetcher);
+
+    assert.equal(audit.reachable, true);
+    assert.deepEqual(audit.jsonLd.types, ['FAQPage', 'Offer', 'Organization', 'Product']);
+    assert.deepEqual(audit.structuredData.points, {
+      jsonLd: 2,
+      entityMarkup: 1,
+      contentMarkup: 1,
+      openGraph: 1,
+      aiCrawlers: 0,           // robots.txt blocks GPTBot and CCBot
+      llmsTxt: 1,
+      sitemap: 1
+    });
+    assert.equal(audit.structuredData.score, 7);
+    assert.match(audit.structuredData.reason, /robots\.txt blocks GPTBot, CCBot\./);
+  });
+
+  it('gives an unknown site only the open-crawler point', async () => {
+    const audit = await auditSite('missing.example', fetcher);
+
+    assert.equal(audit.reachable, false);
+    assert.equal(audit.structuredData.score, 1);
+    assert.match(audit.structuredData.reason, /Missing: JSON-LD, OpenGraph, llms\.txt, sitemap\./);
+  });
+
+  it('needs every OpenGraph tag for the point', async () => {
+    const { structuredData, ...audit } = await auditSite('acme-example.com', fetcher);
+    const partial = scoreStructuredData({ ...audit, openGraph: { present: true, tags: { 'og:title': 'Acme' } } });
+
+    assert.equal(partial.points.openGraph, 0);
+    assert.equal(partial.score, structuredData.score - 1);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStore } from '../src/services/vector-store.js';
+import { HashEmbedder } from '../src/services/embedder.js';
+import { ContextService } from '../src/services/context.service.js';
+
+const point = (id: string, vector: number[], payload: Record<string, any>) => ({ id, vector, payload });
+
+describe('MemoryStore', () => {
+  it('only returns points matching every filter field', async () => {
+    const store = new MemoryStore();
+    await store.upsert([
+      point('a', [1, 0], { tenantId: 't1', userId: 'u1' }),
+      point('b', [1, 0], { tenantId: 't1', userId: 'u2' }),
+      point('c', [0, 1], { tenantId: 't2', userId: 'u1' })
+    ]);
+
+    assert.deepEqual((await store.search([1, 0], 10, { tenantId: 't1', userId: 'u1' })).map(m => m.id), ['a']);
+    assert.deepEqual((await store.search([1, 0], 10, { tenantId: 't1' })).map(m => m.id).sort(), ['a', 'b']);
+    assert.deepEqual(await store.search([1, 0], 10, { tenantId: 't3' }), []);
+  });
+
+  it('ranks by cosine similarity', async () => {
+    const store = new MemoryStore();
+    await store.upsert([point('far', [0, 1], {}), point('near', [1, 0.1], {})]);
+
+    const [first, second] = await store.search([1, 0], 2, {});
+    assert.equal(first.id, 'near');
+    assert.ok(first.score > second.score);
+  });
+
+  it('deletes only the filtered scope', async () => {
+    const store = new MemoryStore();
+    await store.upsert([point('a', [1], { tenantId: 't1' }), point('b', [1], { tenantId: 't2' })]);
+    await store.delete({ tenantId: 't1' });
+
+    assert.deepEqual((await store.search([1], 10, {})).map(m => m.id), ['b']);
+  });
+});
+
+describe('ContextService scopes', () => {
+  const doc = (id: string, content: string, metadata: Record<string, any> = {}) => ({ id, content, metadata });
+
+  async function service() {
+    const rag = new ContextService(() => new MemoryStore(), () => new HashEmbedder(256));
+    await rag.initialize();
+    return rag;
+  }
+
+  it('keeps tenants and users apart, even for the same document id', async () => {
+    const rag = await service();
+    await rag.ingestDocuments([doc('d1', 'Acme tents are waterproof')], { tenantId: 't1', userId: 'u1' });
+    await rag.ingestDocuments([doc('d1', 'Acme tents are heavy')], { tenantId: 't2', userId: 'u1' });
+    await rag.ingestDocuments([doc('d2', 'Acme tents are cheap')], { tenantId: 't1', userId: 'u2' });
+
+    const results = await rag.search('Acme tents', { tenantId: 't1', userId: 'u1' }, 10);
+    assert.deepEqual(results.map(r => r.content), ['Acme tents are waterproof']);
+  });
+
+  it('ignores scope fields in document metadata', async () => {
+    const rag = await service();
+    await rag.ingestDocuments([doc('d1', 'Acme tents', { tenantId: 't2', userId: 'u9' })], { tenantId: 't1', userId: 'u1' });
+
+    assert.equal((await rag.search('Acme tents', { tenantId: 't1', userId: 'u1' })).length, 1);
+    assert.equal((await rag.search('Acme tents', { tenantId: 't2', userId: 'u9' })).length, 0);
+  });
+
+  it('purges one tenant only', async () => {
+    const rag = await service();
+    await rag.ingestDocuments([doc('d1', 'Acme tents')], { tenantId: 't1', userId: 'u1' });
+    await rag.ingestDocuments([doc('d1', 'Acme tents')], { tenantId: 't2', userId: 'u1' });
+
+    assert.equal(await rag.purgeTenant('t1'), true);
+    assert.equal((await rag.search('Acme tents', { tenantId: 't1', userId: 'u1' })).length, 0);
+    assert.equal((await rag.search('Acme tents', { tenantId: 't2', userId: 'u1' })).length, 1);
+  });
+});